@@ -0,0 +1,294 @@
+import { glob } from 'fast-glob';
+import chalk from 'chalk';
+import path from 'path';
+import { displayMessage, findPackageDir, printJson } from './utils';
+import { AllProjectsReport, CliOptions, ProjectAnalysisSummary, SharedPreviewPackage, WorkspacePackage } from './types';
+import { CliOptionsError } from './errors';
+import { analyzeStoryFiles, buildAnalyzeReport } from './analyze-mode';
+import { analyzePreviewFile, IMPORT_THRESHOLD } from './preview-mode';
+import { AnalysisCache, openAnalysisCache } from './analysis-cache';
+import { createIndexedModuleResolver } from './file-index';
+import { ModuleResolver } from './module-resolver';
+import { findStoryFiles, findStorySpecifiers } from './story-discovery';
+import { findGlobalFiles, listGlobalScripts } from './global-files';
+import { detectWorkspace, listWorkspacePackages } from './workspace-detection';
+
+/**
+ * Returns the workspace package an import points into: a bare specifier that names a package of
+ * this repository and resolves to a file in it, rather than a relative path or tsconfig alias
+ */
+const getWorkspacePackage = (
+    source: string,
+    fromFile: string,
+    resolver: ModuleResolver,
+    workspacePackages: WorkspacePackage[],
+): string | undefined => {
+    const packageName = source.match(/^(@[^/]+\/)?[^./][^/]*/)?.[0];
+    const workspacePackage = workspacePackages.find((candidate) => candidate.name === packageName);
+    const resolved = workspacePackage ? resolver.resolve(source, fromFile) : undefined;
+    const packageDir = resolved?.type === 'file' ? findPackageDir(resolved.path) : undefined;
+    return packageDir && packageDir === path.resolve(detectWorkspace().rootDir, workspacePackage!.directory)
+        ? packageName
+        : undefined;
+};
+
+/**
+ * Analyzes a single project's stories and preview files, and summarizes the results
+ */
+const analyzeProject = async (
+    project: string,
+    resolver: ModuleResolver,
+    cache: AnalysisCache,
+    workspacePackages: WorkspacePackage[],
+): Promise<ProjectAnalysisSummary> => {
+    const specifiers = await findStorySpecifiers(project);
+    const storyFiles = await findStoryFiles(project, specifiers);
+    const { summary } = buildAnalyzeReport(
+        project,
+        await analyzeStoryFiles(storyFiles, path.dirname(project), { showProgress: true, cache, resolver, specifiers }),
+    );
+
+    const scripts = listGlobalScripts(await findGlobalFiles(project));
+    const previews = await Promise.all(
+        scripts.map(({ file, kind }) => analyzePreviewFile(file, process.cwd(), { cache, resolver, kind })),
+    );
+
+    const previewPackages = new Set<string>();
+    previews.forEach((preview) => {
+        [...preview.staticImports, ...preview.dynamicImports]
+            .filter((imp) => imp.traceability !== 'untraceable' && imp.traceability !== 'context')
+            .forEach((imp) => {
+                const packageName = getWorkspacePackage(
+                    imp.source,
+                    path.resolve(preview.file),
+                    resolver,
+                    workspacePackages,
+                );
+                if (packageName) {
+                    previewPackages.add(packageName);
+                }
+            });
+    });
+
+    return {
+        project,
+        storyFiles: storyFiles.length,
+        dynamicImports: {
+            traceable: summary.traceableDynamicImports,
+            context: summary.contextDynamicImports,
+            untraceable: summary.untraceableDynamicImports,
+        },
+        barrelFiles: summary.barrelFiles,
+        previewFiles: previews.map((preview) => ({
+            file: preview.file,
+            totalImports: preview.totalImports,
+            exceedsImportThreshold: preview.exceedsImportThreshold,
+            reachableFiles: preview.reachableFiles,
+            sharedWrappers: preview.sharedWrapperImports.map((imp) => imp.source),
+        })),
+        previewWorkspacePackages: [...previewPackages].sort(),
+    };
+};
+
+/**
+ * Builds the repository-wide report from each project's results, listing the workspace packages
+ * imported by more than one project's preview files
+ */
+export const buildAllProjectsReport = (projects: ProjectAnalysisSummary[]): AllProjectsReport => {
+    const importers = new Map<string, string[]>();
+    projects.forEach((project) => {
+        project.previewWorkspacePackages.forEach((packageName) => {
+            importers.set(packageName, [...(importers.get(packageName) ?? []), project.project]);
+        });
+    });
+
+    const sharedPreviewPackages: SharedPreviewPackage[] = [...importers]
+        .filter(([, importingProjects]) => importingProjects.length > 1)
+        .map(([packageName, importingProjects]) => ({ packageName, projects: importingProjects }))
+        .sort((a, b) => b.projects.length - a.projects.length || a.packageName.localeCompare(b.packageName));
+
+    return {
+        mode: 'all-projects',
+        isMonorepo: detectWorkspace().isMonorepo,
+        importThreshold: IMPORT_THRESHOLD,
+        projects,
+        sharedPreviewPackages,
+    };
+};
+
+const countPreviewImports = (project: ProjectAnalysisSummary) =>
+    project.previewFiles.reduce((sum, preview) => sum + preview.totalImports, 0);
+
+/**
+ * Returns true when a project has dynamic imports TurboSnap can't follow precisely, or a preview
+ * file over the import budget
+ */
+const needsAttention = (project: ProjectAnalysisSummary) =>
+    project.dynamicImports.untraceable + project.dynamicImports.context > 0 ||
+    project.previewFiles.some((preview) => preview.exceedsImportThreshold);
+
+/**
+ * Prints the repository-wide report: a row per project, the shared wrappers each preview imports,
+ * and the workspace packages several previews share
+ */
+const displayAllProjectsReport = (report: AllProjectsReport) => {
+    const analyzed = report.projects.filter((project) => !project.error);
+    const failures = report.projects.filter((project) => project.error);
+
+    // Projects that need the most cleanup come first
+    const ranked = [...analyzed].sort(
+        (a, b) =>
+            b.dynamicImports.untraceable - a.dynamicImports.untraceable ||
+            b.dynamicImports.context - a.dynamicImports.context ||
+            countPreviewImports(b) - countPreviewImports(a) ||
+            a.project.localeCompare(b.project),
+    );
+
+    const rows = [
+        ['Project', 'Stories', 'Untraceable', 'Context', 'Traceable', 'Barrels', 'Preview imports'],
+        ...ranked.map((project) => [
+            project.project,
+            String(project.storyFiles),
+            String(project.dynamicImports.untraceable),
+            String(project.dynamicImports.context),
+            String(project.dynamicImports.traceable),
+            String(project.barrelFiles),
+            project.previewFiles.length > 0
+                ? project.previewFiles
+                      .map(
+                          (preview) =>
+                              `${preview.totalImports}/${report.importThreshold} (${preview.reachableFiles} reachable)`,
+                      )
+                      .join(', ')
+                : 'no preview',
+        ]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('   ');
+
+    displayMessage(
+        [
+            chalk.bold(formatRow(rows[0])),
+            ...rows.slice(1).map((row, index) => {
+                const line = formatRow(row);
+                return needsAttention(ranked[index]) ? chalk.yellow(line) : line;
+            }),
+            '',
+            "Dynamic imports are counted across each project's stories and their dependency trees.",
+            `Preview imports are shown for each preview file against a budget of ${report.importThreshold}, with the`,
+            'number of files each preview reaches through them.',
+            ...(failures.length > 0
+                ? ['', ...failures.map((project) => `🚨 ${project.project}: ${project.error}`)]
+                : []),
+        ].join('\n'),
+        {
+            title: '📊 Repository Overview',
+            borderColor: failures.length > 0 || analyzed.some(needsAttention) ? 'yellow' : 'green',
+        },
+    );
+
+    const withWrappers = ranked.filter((project) =>
+        project.previewFiles.some((preview) => preview.sharedWrappers.length > 0),
+    );
+    if (withWrappers.length > 0) {
+        displayMessage(
+            withWrappers
+                .map(
+                    (project) =>
+                        `${chalk.cyan(project.project)}\n${project.previewFiles
+                            .flatMap((preview) => preview.sharedWrappers)
+                            .map((source) => `  - ${source}`)
+                            .join('\n')}`,
+                )
+                .join('\n\n'),
+            { title: '🎁 Shared Wrappers in Preview Files', borderColor: 'blue' },
+        );
+    }
+
+    if (report.sharedPreviewPackages.length > 0) {
+        displayMessage(
+            `A change to any of these workspace packages retests every story in each project listed.\n\n${report.sharedPreviewPackages
+                .map(
+                    (shared) =>
+                        `📦 ${chalk.cyan(shared.packageName)} (${shared.projects.length} projects)\n${shared.projects
+                            .map((project) => `  - ${project}`)
+                            .join('\n')}`,
+                )
+                .join('\n\n')}`,
+            { title: '📦 Workspace Packages Shared by Previews', borderColor: 'yellow' },
+        );
+    } else if (analyzed.length > 1) {
+        displayMessage("✅ No workspace package is imported by more than one project's preview files.", {
+            title: '📦 Workspace Packages Shared by Previews',
+            borderColor: 'green',
+        });
+    }
+};
+
+/**
+ * Analyzes every Storybook project in the repository, for `analyze --all-projects` and
+ * `preview --all-projects`. A project that can't be analyzed is reported and the rest still are.
+ */
+export const allProjectsMode = async (options: CliOptions) => {
+    if (options.project) {
+        throw new CliOptionsError('--all-projects and --project cannot be used together.');
+    }
+    if (options.sarif) {
+        throw new CliOptionsError('--sarif is not supported with --all-projects. Pass --format json instead.');
+    }
+
+    const isJson = options.format === 'json';
+    if (!isJson) {
+        displayMessage('Analyzing every Storybook project in the repository', {
+            title: '🗺️  All Projects',
+            borderColor: 'magenta',
+        });
+    }
+
+    const storybookDirs = (
+        await glob('**/.storybook', {
+            onlyDirectories: true,
+            ignore: ['**/node_modules/**'],
+        })
+    ).sort();
+
+    if (storybookDirs.length === 0) {
+        const message =
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.';
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title: '❌ No Storybook Config Found', borderColor: 'yellow' });
+        }
+        process.exit(1);
+    }
+
+    const resolver = await createIndexedModuleResolver();
+    const cache = openAnalysisCache({ enabled: !options.noCache });
+    const workspacePackages = listWorkspacePackages(detectWorkspace());
+    const projects: ProjectAnalysisSummary[] = [];
+    for (const project of storybookDirs) {
+        try {
+            projects.push(await analyzeProject(project, resolver, cache, workspacePackages));
+        } catch (error) {
+            projects.push({
+                project,
+                storyFiles: 0,
+                dynamicImports: { traceable: 0, context: 0, untraceable: 0 },
+                barrelFiles: 0,
+                previewFiles: [],
+                previewWorkspacePackages: [],
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+    cache.save();
+
+    const report = buildAllProjectsReport(projects);
+    if (isJson) {
+        printJson(report);
+    } else {
+        displayAllProjectsReport(report);
+    }
+    process.exitCode = 0;
+};
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { listContextFiles, analyzeFileImports } from './import-parser';
+import { AnalysisCacheEntry, FileImportAnalysis } from './types';
+
+/**
+ * Where the cache is kept, relative to the working directory, alongside other tools' caches
+ */
+export const CACHE_DIRECTORY = path.join('node_modules', '.cache', 'turbosnap-helper');
+const CACHE_FILE = 'analysis.json';
+
+/**
+ * The cache file's contents. Entries are keyed by path relative to the working directory.
+ */
+interface AnalysisCacheFile {
+    version: string;
+    entries: Record<string, AnalysisCacheEntry>;
+}
+
+const hashContent = (code: string) => createHash('sha1').update(code).digest('hex');
+
+/**
+ * Reads the cache file, discarding it when it's missing, unreadable or written by another version
+ */
+const readCacheFile = (cachePath: string): AnalysisCacheFile => {
+    try {
+        const cache: AnalysisCacheFile = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+        if (cache.version === __VERSION__ && cache.entries && typeof cache.entries === 'object') {
+            return cache;
+        }
+    } catch (error) {
+        // A missing or corrupt cache is rebuilt from scratch
+    }
+    return { version: __VERSION__, entries: {} };
+};
+
+/**
+ * Opens the on-disk analysis cache, which keeps what was learned about each file — its imports,
+ * where they resolve, and for story files their CSF metadata — for as long as the file's content
+ * is unchanged. When disabled, nothing is read or written.
+ */
+export const openAnalysisCache = ({
+    enabled = true,
+    rootDir = process.cwd(),
+}: { enabled?: boolean; rootDir?: string } = {}) => {
+    const cachePath = path.join(rootDir, CACHE_DIRECTORY, CACHE_FILE);
+    const cache: AnalysisCacheFile = enabled ? readCacheFile(cachePath) : { version: __VERSION__, entries: {} };
+    let changed = false;
+
+    const getKey = (filePath: string) => path.relative(rootDir, path.resolve(filePath)).split(path.sep).join('/');
+
+    /**
+     * Returns the cached entry for a file, unless its content changed since it was cached
+     */
+    const get = (filePath: string, code: string): AnalysisCacheEntry | undefined => {
+        const entry = enabled ? cache.entries[getKey(filePath)] : undefined;
+        return entry?.hash === hashContent(code) ? entry : undefined;
+    };
+
+    /**
+     * Records what was learned about a file, merged with what's already cached for the same content
+     */
+    const set = (filePath: string, code: string, values: Omit<AnalysisCacheEntry, 'hash'>) => {
+        if (!enabled) {
+            return;
+        }
+        const hash = hashContent(code);
+        const key = getKey(filePath);
+        const existing = cache.entries[key]?.hash === hash ? cache.entries[key] : undefined;
+        cache.entries[key] = { ...existing, ...values, hash };
+        changed = true;
+    };
+
+    /**
+     * Writes the cache back to disk if anything changed. The cache is an optimization, so failing
+     * to write it, such as in a read-only checkout, isn't an error.
+     */
+    const save = () => {
+        if (!enabled || !changed) {
+            return;
+        }
+        try {
+            fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+            fs.writeFileSync(cachePath, JSON.stringify(cache));
+            changed = false;
+        } catch (error) {
+            // Ignored, the next run analyzes the files again
+        }
+    };
+
+    return { get, set, save };
+};
+
+export type AnalysisCache = ReturnType<typeof openAnalysisCache>;
+
+/**
+ * Returns a file's imports, from the cache when its content hasn't changed. The number of files
+ * matched by `require.context` and `import.meta.glob` depends on other files, so it's recounted.
+ */
+export const getCachedFileImports = (
+    filePath: string,
+    code: string,
+    cache?: AnalysisCache,
+): { analysis: FileImportAnalysis; entry?: AnalysisCacheEntry } => {
+    const entry = cache?.get(filePath, code);
+    if (!entry?.analysis) {
+        const analysis = analyzeFileImports(filePath, code);
+        cache?.set(filePath, code, { analysis });
+        return { analysis };
+    }
+
+    const analysis = structuredClone(entry.analysis);
+    analysis.dynamicImports
+        .filter((imp) => imp.matchedFiles !== undefined)
+        .forEach((imp) => {
+            imp.matchedFiles = listContextFiles(imp).length;
+        });
+    return { analysis, entry };
+};
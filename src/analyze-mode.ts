@@ -1,95 +1,284 @@
 import { glob } from 'fast-glob';
-import { prompt } from 'prompts';
 import chalk from 'chalk';
 import boxen from 'boxen';
 import dedent from 'dedent';
 import fs from 'fs';
 import path from 'path';
-import { displayMessage } from './utils';
+import { createProgress, describeContextFilter, displayMessage, displayParseErrors, printJson } from './utils';
+import {
+    AnalysisCacheEntry,
+    AnalyzeReport,
+    AnalyzeSummary,
+    BarrelFileAnalysis,
+    CliOptions,
+    CsfMetadata,
+    DependencyGraph,
+    DynamicImportTraceability,
+    FileImportAnalysis,
+    ImportReference,
+    StoryFileAnalysis,
+} from './types';
+import { analyzeFileImports } from './import-parser';
+import { buildDependencyGraph, collectDependencies } from './dependency-graph';
+import { analyzeBarrels } from './barrel-analysis';
+import { AnalysisCache, openAnalysisCache } from './analysis-cache';
+import { findStoriesEntry, parseCsfFile } from './csf-parser';
+import { createExportTracer, ExportTracer } from './export-tracer';
+import { ModuleResolver } from './module-resolver';
+import { createIndexedModuleResolver } from './file-index';
+import { mapWithConcurrency } from './worker-pool';
+import { buildAnalyzeSarif, writeSarifReport } from './sarif';
+import { selectStorybookProject } from './project-detection';
+import { detectWorkspace } from './workspace-detection';
+import { findStoryFiles, findStorySpecifiers } from './story-discovery';
+import type { NormalizedStoriesSpecifier } from 'storybook/internal/types';
 
 /**
- * Analyzes a story file for import types
+ * Returns true when every component a cached CSF result points to still exists
  */
-const analyzeStoryFile = async (filePath: string): Promise<{ 
-    staticImports: string[]; 
-    dynamicImports: string[]; 
-    componentFile?: string;
-    componentAnalysis?: { staticImports: string[]; dynamicImports: string[] };
-}> => {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    let componentFile: string | undefined;
-
-    // Get imports from analyzeFile
-    const { staticImports, dynamicImports } = await analyzeFile(filePath);
-
-    // Hack to try to find the component file using the meta.component property
-    const componentMatch = content.match(/component:\s*([^,}\n]+)/);
-    if (componentMatch) {
-        const componentName = componentMatch[1].trim();
-        // Find the import statement for this component
-        const componentImportMatch = content.match(new RegExp(`import\\s+{[^}]*\\b${componentName}\\b[^}]*}\\s+from\\s+['"]([^'"]+)['"]`));
-        
-        if (componentImportMatch) {
-            const importPath = componentImportMatch[1];
-            const storyDir = path.dirname(filePath);
-            const possibleComponentPaths = [
-                path.join(storyDir, `${importPath}.{js,jsx,ts,tsx}`),
-                path.join(storyDir, `${importPath}/index.{js,jsx,ts,tsx}`),
-            ];
-
-            for (const pattern of possibleComponentPaths) {
-                const matches = await glob(pattern, { 
-                    ignore: ['**/node_modules/**'],
-                    cwd: process.cwd()
-                });
-                if (matches.length > 0) {
-                    componentFile = matches[0];
-                    break;
-                }
+const componentFilesExist = (csf: CsfMetadata | undefined, resolver: ModuleResolver) =>
+    [csf?.component, ...(csf?.subcomponents ?? [])].every(
+        (component) => !component?.file || resolver.isFile(path.resolve(component.file)),
+    );
+
+/**
+ * Returns true when a cached CSF result was generated for the same `stories` entry, whose
+ * directory and `titlePrefix` the title and story ids depend on
+ */
+const isSameStoriesEntry = (
+    cached: AnalysisCacheEntry['storiesEntry'],
+    storiesEntry: NormalizedStoriesSpecifier | undefined,
+) => cached?.directory === storiesEntry?.directory && cached?.titlePrefix === storiesEntry?.titlePrefix;
+
+/**
+ * Analyzes a story file for import types. With a cache, the CSF metadata of unchanged story
+ * files is reused.
+ */
+const analyzeStoryFile = async (
+    filePath: string,
+    graph: DependencyGraph,
+    resolver: ModuleResolver,
+    findExportOrigin: ExportTracer,
+    storiesEntry?: NormalizedStoriesSpecifier,
+    cache?: AnalysisCache,
+): Promise<Omit<StoryFileAnalysis, 'file'>> => {
+    // Get imports from the dependency graph, which has already parsed the story
+    const { staticImports, dynamicImports, parseError } = graph.get(path.resolve(filePath)) ?? (await analyzeFile(filePath));
+
+    // Read the meta with Storybook's CSF parser to find the component the stories render
+    // MDX docs aren't CSF, but their imports are still followed
+    let csf: CsfMetadata | undefined;
+    let csfError: string | undefined;
+    const code = cache && (await fs.promises.readFile(filePath, 'utf-8').catch(() => undefined));
+    const cached = code !== undefined ? cache?.get(filePath, code) : undefined;
+    if (
+        cached &&
+        ('csf' in cached || 'csfError' in cached) &&
+        isSameStoriesEntry(cached.storiesEntry, storiesEntry) &&
+        componentFilesExist(cached.csf, resolver)
+    ) {
+        ({ csf, csfError } = cached);
+    } else {
+        try {
+            if (path.extname(filePath).toLowerCase() !== '.mdx') {
+                csf = parseCsfFile(filePath, resolver, findExportOrigin, storiesEntry);
             }
+        } catch (error) {
+            csfError = error instanceof Error ? error.message : String(error);
+        }
+        if (code !== undefined) {
+            const entry = storiesEntry && { directory: storiesEntry.directory, titlePrefix: storiesEntry.titlePrefix };
+            cache?.set(filePath, code, { csf, csfError, storiesEntry: entry });
         }
     }
 
-    let componentAnalysis;
+    // Components declared in the story file itself are already covered by the story's imports
+    const componentFile =
+        csf?.component?.file && path.resolve(csf.component.file) !== path.resolve(filePath)
+            ? csf.component.file
+            : undefined;
+
+    let componentAnalysis: FileImportAnalysis | undefined;
     if (componentFile) {
-        componentAnalysis = await analyzeFile(componentFile);
+        const componentNode = graph.get(path.resolve(componentFile));
+        componentAnalysis = componentNode
+            ? {
+                  staticImports: componentNode.staticImports,
+                  dynamicImports: componentNode.dynamicImports,
+                  ...(componentNode.parseError && { parseError: componentNode.parseError }),
+              }
+            : await analyzeFile(componentFile);
     }
 
-    return { staticImports, dynamicImports, componentFile, componentAnalysis };
-};
+    // Follow imports through the whole tree, the way TurboSnap traces changes
+    const dependencies = collectDependencies(graph, filePath);
+    const dependencyDynamicImports = dependencies.flatMap((dependency) =>
+        (graph.get(dependency)?.dynamicImports ?? []).map((imp) => ({
+            ...imp,
+            file: path.relative(process.cwd(), dependency),
+        })),
+    );
 
-const analyzeFile = async (filePath: string): Promise<{ staticImports: string[]; dynamicImports: string[] }> => {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const staticImports: string[] = [];
-    const dynamicImports: string[] = [];
+    return {
+        staticImports,
+        dynamicImports,
+        ...(parseError && { parseError }),
+        csf,
+        ...(csfError && { csfError }),
+        componentFile,
+        componentAnalysis,
+        dependencies: dependencies.map((dependency) => path.relative(process.cwd(), dependency)),
+        dependencyDynamicImports,
+    };
+};
 
-    // Match static imports (import ... from ...)
-    const staticImportRegex = /import\s+(?:{[^}]*}|[^;]+)\s+from\s+['"]([^'"]+)['"]/g;
-    let match;
-    while ((match = staticImportRegex.exec(content)) !== null) {
-        staticImports.push(match[1]);
-    }
+/**
+ * Classifies the imports of a story or component file
+ */
+const analyzeFile = async (filePath: string): Promise<FileImportAnalysis> => analyzeFileImports(filePath);
 
-    // Match dynamic imports (import(), require())
-    const dynamicImportRegex = /(?:import\(|require\(|await\s+import\()\s*['"]([^'"]+)['"]/g;
-    while ((match = dynamicImportRegex.exec(content)) !== null) {
-        dynamicImports.push(match[1]);
-    }
+/**
+ * Analyzes every story file in the list, resolving paths against the given root, and the
+ * barrel files their dependency trees go through. Files are resolved against an index of the
+ * working directory built up front, unless a resolver is passed, and analyzed several at once.
+ * Pass `showProgress` to show progress on stderr, a cache to skip the work already done for
+ * files that haven't changed, and the project's `stories` entries to build story ids the way
+ * Storybook does. `onResult` is called with each file's result as soon as it's analyzed.
+ */
+export const analyzeStoryFiles = async (
+    storyFiles: string[],
+    rootDir: string,
+    {
+        showProgress = false,
+        cache,
+        resolver: providedResolver,
+        specifiers = [],
+        onResult,
+    }: {
+        showProgress?: boolean;
+        cache?: AnalysisCache;
+        resolver?: ModuleResolver;
+        specifiers?: NormalizedStoriesSpecifier[];
+        onResult?: (result: StoryFileAnalysis) => void;
+    } = {},
+): Promise<Pick<AnalyzeReport, 'files' | 'barrels'>> => {
+    const filePaths = storyFiles.map((file) => path.resolve(rootDir, file));
+    const resolver = providedResolver ?? (await createIndexedModuleResolver());
+
+    const graphProgress = showProgress ? createProgress('Tracing dependencies') : undefined;
+    const graph = await buildDependencyGraph(filePaths, resolver, { onProgress: graphProgress?.update, cache });
+    graphProgress?.done();
+
+    const findExportOrigin = createExportTracer(resolver, graph);
+    const storyProgress = showProgress ? createProgress('Analyzing story files') : undefined;
+    let completed = 0;
+    const files = await mapWithConcurrency(
+        filePaths,
+        async (filePath) => {
+            const storiesEntry = findStoriesEntry(filePath, specifiers);
+            const analysis = await analyzeStoryFile(filePath, graph, resolver, findExportOrigin, storiesEntry, cache);
+            return { file: path.relative(process.cwd(), filePath), ...analysis };
+        },
+        {
+            onResult: (result) => {
+                if (onResult) {
+                    // Clear the progress line so the result isn't printed over it
+                    storyProgress?.done();
+                    onResult(result);
+                }
+                storyProgress?.update(++completed, filePaths.length);
+            },
+        },
+    );
+    storyProgress?.done();
+    cache?.save();
 
-    return { staticImports, dynamicImports };
+    return { files, barrels: analyzeBarrels(graph, filePaths, resolver) };
 };
 
 /**
- * Analyze mode for checking story files
+ * Lists the dynamic imports of every analyzed story, component and dependency file, with the
+ * file they're in. Files shared by several stories are only listed once.
  */
-export const analyzeMode = async () => {
-    displayMessage('Analyzing story files for import types', {
-        title: '🔍 Analysis Mode',
-        borderColor: 'magenta'
+const collectDynamicImports = (results: StoryFileAnalysis[]): { file: string; imp: ImportReference }[] => {
+    const imports = new Map<string, { file: string; imp: ImportReference }>();
+    const add = (file: string, imp: ImportReference) => imports.set(`${file}:${imp.line}:${imp.column}`, { file, imp });
+
+    results.forEach((result) => {
+        result.dynamicImports.forEach((imp) => add(result.file, imp));
+        if (result.componentFile && result.componentAnalysis) {
+            result.componentAnalysis.dynamicImports.forEach((imp) => add(result.componentFile!, imp));
+        }
+        result.dependencyDynamicImports.forEach(({ file, ...imp }) => add(file, imp));
     });
 
+    return [...imports.values()];
+};
 
-    console.log('Current working directory:', process.cwd());
+/**
+ * Totals imports across all analyzed story and component files
+ */
+const summarizeResults = (results: StoryFileAnalysis[], barrels: BarrelFileAnalysis[]): AnalyzeSummary => {
+    const dynamicImports = collectDynamicImports(results).map(({ imp }) => imp);
+    const countTraceability = (traceability: DynamicImportTraceability) =>
+        dynamicImports.filter((imp) => imp.traceability === traceability).length;
+    // Keyed by location, keeping the file alongside so it never has to be parsed back out of the key
+    const dependencyDynamicImports = new Map(
+        results.flatMap((r) =>
+            r.dependencyDynamicImports.map((imp) => [`${imp.file}:${imp.line}:${imp.column}`, imp.file] as const),
+        ),
+    );
+
+    return {
+        totalFiles: results.length,
+        storyStaticImports: results.reduce((sum, r) => sum + r.staticImports.length, 0),
+        storyDynamicImports: results.reduce((sum, r) => sum + r.dynamicImports.length, 0),
+        storyFilesWithDynamicImports: results.filter(r => r.dynamicImports.length > 0).length,
+        componentStaticImports: results.reduce((sum, r) =>
+            sum + (r.componentAnalysis ? r.componentAnalysis.staticImports.length : 0), 0),
+        componentDynamicImports: results.reduce((sum, r) =>
+            sum + (r.componentAnalysis ? r.componentAnalysis.dynamicImports.length : 0), 0),
+        componentFilesWithDynamicImports: results.filter(r =>
+            r.componentAnalysis && r.componentAnalysis.dynamicImports.length > 0
+        ).length,
+        traceableDynamicImports: countTraceability('traceable'),
+        contextDynamicImports: countTraceability('context'),
+        untraceableDynamicImports: countTraceability('untraceable'),
+        dependencyFiles: new Set(results.flatMap((r) => r.dependencies)).size,
+        dependencyDynamicImports: dependencyDynamicImports.size,
+        dependencyFilesWithDynamicImports: new Set(dependencyDynamicImports.values()).size,
+        contextDirectories: [...new Set(dynamicImports.flatMap((imp) => imp.contextDirectory ?? []))].sort(),
+        barrelFiles: barrels.length,
+    };
+};
+
+/**
+ * Builds the structured report for a set of analyzed story files
+ */
+export const buildAnalyzeReport = (
+    project: string | null,
+    { files, barrels }: Pick<AnalyzeReport, 'files' | 'barrels'>,
+): AnalyzeReport => ({
+    mode: 'analyze',
+    project,
+    isMonorepo: detectWorkspace().isMonorepo,
+    files,
+    barrels,
+    summary: summarizeResults(files, barrels),
+});
+
+/**
+ * Analyze mode for checking story files
+ */
+export const analyzeMode = async (options: CliOptions) => {
+    const isJson = options.format === 'json';
+
+    if (!isJson) {
+        displayMessage('Analyzing story files for import types', {
+            title: '🔍 Analysis Mode',
+            borderColor: 'magenta'
+        });
+    }
 
     // First, try to find Storybook config directories
     const storybookDirs = await glob('**/.storybook', { 
@@ -97,67 +286,92 @@ export const analyzeMode = async () => {
         ignore: ['**/node_modules/**']
     });
 
-    console.log('Found Storybook directories:', storybookDirs);
+    const report = (project: string | null, analysis: Pick<AnalyzeReport, 'files' | 'barrels'>) => {
+        const analyzeReport = buildAnalyzeReport(project, analysis);
+        if (isJson) {
+            printJson(analyzeReport);
+        } else {
+            displayResults(analyzeReport);
+        }
+        if (options.sarif) {
+            writeSarifReport(options.sarif, buildAnalyzeSarif(analyzeReport));
+            if (!isJson) {
+                displayMessage(`SARIF report written to ${chalk.cyan(options.sarif)}`, {
+                    title: '📄 SARIF Report',
+                    borderColor: 'green',
+                });
+            }
+        }
+        // Exiting here could cut off large output piped to another process
+        process.exitCode = 0;
+    };
+
+    // Text output lists the files with findings as they're analyzed, before the full report
+    const streamResult = isJson
+        ? undefined
+        : (result: StoryFileAnalysis) => {
+              const dynamicImports =
+                  result.dynamicImports.length + (result.componentAnalysis?.dynamicImports.length ?? 0);
+              if (result.parseError) {
+                  console.log(`🚨 ${chalk.cyan(result.file)} couldn't be parsed`);
+              } else if (dynamicImports > 0) {
+                  console.log(
+                      `🚨 ${chalk.cyan(result.file)}: ${chalk.yellow(dynamicImports)} dynamic ${
+                          dynamicImports === 1 ? 'import' : 'imports'
+                      }`,
+                  );
+              }
+          };
+
+    const fail = (message: string, title: string): never => {
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title, borderColor: 'yellow' });
+        }
+        return process.exit(1);
+    };
 
     // If no Storybook config found, try to find story files directly
     if (storybookDirs.length === 0) {
-        console.log('No Storybook directories found, looking for story files directly...');
         const storyFiles = await glob('**/*.stories.{js,jsx,ts,tsx}', {
             ignore: ['**/node_modules/**'],
             cwd: process.cwd()
         });
 
-        console.log('Found story files:', storyFiles);
-
         if (storyFiles.length > 0) {
-            displayMessage(
-                `Found ${chalk.cyan(storyFiles.length)} story ${storyFiles.length === 1 ? 'file' : 'files'} directly.`,
-                { title: '📚 Story Files', borderColor: 'magenta', titleAlignment: 'center' }
-            );
+            if (!isJson) {
+                displayMessage(
+                    `Found ${chalk.cyan(storyFiles.length)} story ${storyFiles.length === 1 ? 'file' : 'files'} directly.`,
+                    { title: '📚 Story Files', borderColor: 'magenta' }
+                );
+            }
 
-            // Analyze each story file
-            const results = await Promise.all(
-                storyFiles.map(async (file) => {
-                    const filePath = path.join(process.cwd(), file);
-                    console.log('Analyzing file:', filePath);
-                    const analysis = await analyzeStoryFile(filePath);
-                    return { file, ...analysis };
-                })
+            const cache = openAnalysisCache({ enabled: !options.noCache });
+            return report(
+                null,
+                await analyzeStoryFiles(storyFiles, process.cwd(), { showProgress: true, cache, onResult: streamResult }),
             );
-
-            displayResults(results);
-            process.exit(0);
         }
 
-        displayMessage(
+        fail(
             'No Storybook configuration directories or story files found. Please ensure you are in a Storybook project directory.',
-            { title: '❌ No Storybook Config Found', borderColor: 'yellow' }
+            '❌ No Storybook Config Found'
         );
-        process.exit(1);
     }
 
     // Show all found Storybook projects and let user select one
-    displayMessage(
-        `I found ${chalk.cyan(storybookDirs.length)} Storybook ${storybookDirs.length === 1 ? 'project' : 'projects'}.`,
-        { title: '📚 Storybook Projects', borderColor: 'magenta' }
-    );
+    if (!isJson) {
+        displayMessage(
+            `I found ${chalk.cyan(storybookDirs.length)} Storybook ${storybookDirs.length === 1 ? 'project' : 'projects'}.`,
+            { title: '📚 Storybook Projects', borderColor: 'magenta' }
+        );
+    }
 
-    const { selectedProject } = await prompt({
-        type: 'select',
-        name: 'selectedProject',
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
         message: 'Which Storybook project would you like to analyze?',
-        choices: [
-            ...storybookDirs.map((dir) => ({ 
-                title: dir,
-                value: dir,
-                description: `Analyze stories in ${dir}`
-            })),
-            { 
-                title: 'Exit',
-                value: 'exit',
-                description: 'Exit the analyzer'
-            }
-        ],
+        describe: (dir) => `Analyze stories in ${dir}`,
+        exitDescription: 'Exit the analyzer',
     });
 
     if (selectedProject === 'exit') {
@@ -167,45 +381,149 @@ export const analyzeMode = async () => {
     // Get the project root directory (parent of .storybook)
     const projectRoot = path.dirname(selectedProject);
 
-    // Find all story files in the project root
-    const projectStoryFiles = await glob('**/*.stories.{js,jsx,ts,tsx}', {
-        ignore: ['**/node_modules/**'],
-        cwd: projectRoot
-    });
-
-    console.log('Found story files in project:', projectStoryFiles);
+    // Find the story files the `stories` field in main.js points to
+    const specifiers = await findStorySpecifiers(selectedProject);
+    const projectStoryFiles = await findStoryFiles(selectedProject, specifiers);
 
     if (projectStoryFiles.length === 0) {
+        fail('No story files found in the selected project.', '❌ No Stories Found');
+    }
+
+    if (!isJson) {
         displayMessage(
-            'No story files found in the selected project.',
-            { title: '❌ No Stories Found', borderColor: 'yellow' }
+            `Found ${chalk.cyan(projectStoryFiles.length)} story ${projectStoryFiles.length === 1 ? 'file' : 'files'} to analyze.`,
+            { title: '📚 Story Files', borderColor: 'magenta' }
         );
-        process.exit(1);
     }
 
-    displayMessage(
-        `Found ${chalk.cyan(projectStoryFiles.length)} story ${projectStoryFiles.length === 1 ? 'file' : 'files'} to analyze.`,
-        { title: '📚 Story Files', borderColor: 'magenta' }
+    const cache = openAnalysisCache({ enabled: !options.noCache });
+    return report(
+        selectedProject,
+        await analyzeStoryFiles(projectStoryFiles, projectRoot, {
+            showProgress: true,
+            cache,
+            specifiers,
+            onResult: streamResult,
+        }),
     );
+};
 
-    // Analyze each story file
-    const results = await Promise.all(
-        projectStoryFiles.map(async (file) => {
-            const filePath = path.join(projectRoot, file);
-            console.log('Analyzing file:', filePath);
-            const analysis = await analyzeStoryFile(filePath);
-            return { file, ...analysis };
-        })
+/**
+ * Groups dynamic imports by whether TurboSnap can follow them, listing the directories
+ * that context modules cover
+ */
+const displayTraceability = (results: StoryFileAnalysis[], summary: AnalyzeSummary) => {
+    const dynamicImports = collectDynamicImports(results);
+    const listImports = (traceability: DynamicImportTraceability) =>
+        dynamicImports
+            .filter(({ imp }) => imp.traceability === traceability)
+            .map(({ file, imp }) => {
+                const location = chalk.cyan(`${file}:${imp.line}:${imp.column}`);
+                const watched = imp.contextDirectory ? ` → watches ${chalk.magenta(`${imp.contextDirectory}/`)}` : '';
+                const filter = imp.contextFilter ? ` ${describeContextFilter(imp)}` : '';
+                return `- ${location} ${chalk.yellow(imp.source)}${watched}${filter}`;
+            })
+            .join('\n');
+
+    const sections = [
+        `${chalk.green('✅ Traceable')} (${summary.traceableDynamicImports}): string literal paths that resolve to a single file`,
+    ];
+
+    if (summary.contextDynamicImports > 0) {
+        const externals = summary.contextDirectories
+            .filter((dir) => fs.existsSync(dir))
+            .map((dir) => `"${dir}/**"`)
+            .join(', ');
+        sections.push(dedent`${chalk.yellow('🚨 Context modules')} (${summary.contextDynamicImports}): every matching file in the directory is bundled, including \`require.context\` and \`import.meta.glob\` calls
+            ${listImports('context')}
+
+            A change to a bundled file in these directories retests every story that uses them:
+            ${summary.contextDirectories.map((dir) => `- ${chalk.magenta(`${dir}/`)}`).join('\n')}
+
+            To keep retests focused, narrow the directory or filter to the files your stories need.
+            If the files are loaded at runtime rather than bundled, add the directories to
+            ${chalk.cyan('externals')} in your Chromatic config so changes to them are still tested:
+            ${chalk.cyan(`"externals": [${externals}]`)}`);
+    }
+
+    if (summary.untraceableDynamicImports > 0) {
+        sections.push(dedent`${chalk.red('🚨 Untraceable')} (${summary.untraceableDynamicImports}): the path is only known at runtime
+            ${listImports('untraceable')}
+
+            TurboSnap can't tell which files these load, so changes to them may be missed.
+            Use a string literal path, or a template literal starting with a directory.`);
+    }
+
+    console.log(
+        boxen(sections.join('\n\n'), {
+            title: '🧭 Dynamic Import Traceability',
+            titleAlignment: 'center',
+            padding: 1,
+            borderColor: summary.untraceableDynamicImports > 0 ? 'red' : 'yellow',
+            borderStyle: 'double',
+        }),
     );
+};
+
+/**
+ * Lists the barrel files stories import through, with direct imports to use instead
+ */
+const displayBarrels = (barrels: BarrelFileAnalysis[]) => {
+    if (barrels.length === 0) {
+        return;
+    }
 
-    displayResults(results);
-    process.exit(0);
+    const listed = barrels
+        .map((barrel) => {
+            const suggestions = barrel.suggestions.flatMap((suggestion) => [
+                `↳ ${chalk.cyan(`${suggestion.file}:${suggestion.line}:${suggestion.column}`)} imports from ${chalk.yellow(
+                    suggestion.source,
+                )}, use instead:`,
+                ...suggestion.replacements.map(
+                    ({ source, clause }) => `  import ${clause} from '${chalk.green(source)}';`,
+                ),
+            ]);
+            return [
+                `- ${chalk.cyan(barrel.file)}: ${chalk.magenta(barrel.storyFiles)} ${
+                    barrel.storyFiles === 1 ? 'story' : 'stories'
+                }, ${chalk.yellow(barrel.fanOut)} ${barrel.fanOut === 1 ? 'file' : 'files'} reachable`,
+                ...suggestions,
+            ].join('\n');
+        })
+        .join('\n');
+
+    console.log(
+        boxen(
+            `${listed}\n\n🚨 Every story that imports through a barrel depends on every file it re-exports.
+A change to any of them retests all of those stories, so import from the file that
+declares what you need instead.`,
+            {
+                title: '📦 Barrel Files',
+                titleAlignment: 'center',
+                padding: 1,
+                borderColor: 'yellow',
+                borderStyle: 'double',
+            },
+        ),
+    );
 };
 
-const displayResults = (results: any[]) => {
+const displayResults = ({ files: results, barrels, summary }: AnalyzeReport) => {
+    displayParseErrors([
+        ...results,
+        ...results.flatMap((result) =>
+            result.componentFile && result.componentAnalysis
+                ? [{ file: result.componentFile, parseError: result.componentAnalysis.parseError }]
+                : [],
+        ),
+    ]);
+
+    displayBarrels(barrels);
+
     const filesWithDynamicImports = results.filter(result => 
         result.dynamicImports.length > 0 || 
-        (result.componentAnalysis && result.componentAnalysis.dynamicImports.length > 0)
+        (result.componentAnalysis && result.componentAnalysis.dynamicImports.length > 0) ||
+        result.dependencyDynamicImports.length > 0
     );
 
     if (filesWithDynamicImports.length === 0) {
@@ -230,6 +548,19 @@ const displayResults = (results: any[]) => {
         r.componentAnalysis && r.componentAnalysis.dynamicImports.length > 0
     );
 
+    // Dependency files deeper in the tree, and how many stories reach each of them
+    const directFiles = new Set(results.flatMap(r => [r.file, ...(r.componentFile ? [r.componentFile] : [])]));
+    const dependencyFiles = new Map<string, { imports: number; stories: number }>();
+    filesWithDynamicImports.forEach(result => {
+        const importsByFile = new Map<string, number>();
+        result.dependencyDynamicImports
+            .filter(imp => !directFiles.has(imp.file))
+            .forEach(imp => importsByFile.set(imp.file, (importsByFile.get(imp.file) ?? 0) + 1));
+        importsByFile.forEach((imports, file) => {
+            dependencyFiles.set(file, { imports, stories: (dependencyFiles.get(file)?.stories ?? 0) + 1 });
+        });
+    });
+
     let output = 'Analysis Results:\n\n';
 
     if (storyFiles.length > 0) {
@@ -252,8 +583,8 @@ and will fallback to a full rebuild.`;
         output += `${chalk.bold('Component Files with Dynamic Imports:')}\n`;
         output += componentFiles.map(result => {
             return `${chalk.cyan(result.componentFile)}:
-            Static Imports: ${chalk.green(result.componentAnalysis.staticImports.length)}
-            Dynamic Imports: ${chalk.yellow(result.componentAnalysis.dynamicImports.length)}`;
+            Static Imports: ${chalk.green(result.componentAnalysis!.staticImports.length)}
+            Dynamic Imports: ${chalk.yellow(result.componentAnalysis!.dynamicImports.length)}`;
         }).join('\n');
         output += '\n\n';
         output += `🚨 Using dynamic imports in components can result in missed changes
@@ -261,11 +592,26 @@ and will fallback to a full rebuild.`;
 Regressions from dynamically imported files could go untested, reducing your coverage.
 If the dynamically loaded components affect layout or style, consider changing the import
 to a static import or flagging it with --externals to ensure changes are tested.`;
+        output += '\n\n\n';
+    }
+
+    if (dependencyFiles.size > 0) {
+        output += `${chalk.bold('Dependency Files with Dynamic Imports:')}\n`;
+        output += [...dependencyFiles].map(([file, { imports, stories }]) => {
+            return `${chalk.cyan(file)}:
+            Dynamic Imports: ${chalk.yellow(imports)}
+            Used by Stories: ${chalk.magenta(stories)}`;
+        }).join('\n');
+        output += '\n\n';
+        output += `🚨 Dynamic imports deeper in the dependency tree affect every story that uses them
+
+TurboSnap traces changes through every file a story imports, not just the story and its
+component. A dynamic import anywhere along the way can hide changes from TurboSnap.`;
     }
 
     console.log(
         boxen(
-            output,
+            output.trimEnd(),
             {
                 title: '📊 Import Analysis',
                 titleAlignment: 'center',
@@ -276,18 +622,18 @@ to a static import or flagging it with --externals to ensure changes are tested.
         ),
     );
 
+    displayTraceability(results, summary);
+
     // Show summary
-    const totalStoryStatic = results.reduce((sum, r) => sum + r.staticImports.length, 0);
-    const totalStoryDynamic = results.reduce((sum, r) => sum + r.dynamicImports.length, 0);
-    const totalComponentStatic = results.reduce((sum, r) => 
-        sum + (r.componentAnalysis ? r.componentAnalysis.staticImports.length : 0), 0);
-    const totalComponentDynamic = results.reduce((sum, r) => 
-        sum + (r.componentAnalysis ? r.componentAnalysis.dynamicImports.length : 0), 0);
+    const totalStoryStatic = summary.storyStaticImports;
+    const totalStoryDynamic = summary.storyDynamicImports;
+    const totalComponentStatic = summary.componentStaticImports;
+    const totalComponentDynamic = summary.componentDynamicImports;
 
     console.log(
         boxen(
             dedent`Summary:
-            Total Files Analyzed: ${chalk.cyan(results.length)}
+            Total Files Analyzed: ${chalk.cyan(summary.totalFiles)}
             
             Story Files:
             Total Static Imports: ${chalk.green(totalStoryStatic)}
@@ -299,7 +645,13 @@ to a static import or flagging it with --externals to ensure changes are tested.
             Total Dynamic Imports: ${chalk.yellow(totalComponentDynamic)}
             Files with Dynamic Imports: ${chalk.yellow(componentFiles.length)}
             
-            ${(totalStoryDynamic + totalComponentDynamic) > 0 ? 
+            Dependency Tree:
+            Files Reached from Stories: ${chalk.cyan(summary.dependencyFiles)}
+            Total Dynamic Imports: ${chalk.yellow(summary.dependencyDynamicImports)}
+            Files with Dynamic Imports: ${chalk.yellow(summary.dependencyFilesWithDynamicImports)}
+            Barrel Files: ${chalk.yellow(summary.barrelFiles)}
+            
+            ${(totalStoryDynamic + totalComponentDynamic + summary.dependencyDynamicImports) > 0 ? 
                 dedent`🚨 Some files use dynamic imports which may affect Turbosnap
 
                 TurboSnap does not follow runtime logic.
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Programmatic API for the TurboSnap helper.
+ * These functions detect, analyze and plan configuration changes for Storybook projects
+ * without prompting, printing or exiting the process. Failures are reported by throwing
+ * the typed errors exported below. Paths are resolved against the current working directory.
+ */
+import { glob } from 'fast-glob';
+import fs from 'fs';
+import path from 'path';
+import { loadStorybookModules } from './storybook-resolver';
+import { buildProjectMeta as buildMetaFromConfig } from './project-detection';
+import { analyzeStoryFiles, buildAnalyzeReport } from './analyze-mode';
+import { analyzePreviewFile, buildPreviewReport } from './preview-mode';
+import { buildImpactReport, findProjectEntryFiles } from './impact-mode';
+import { createIndexedModuleResolver } from './file-index';
+import { buildDependencyGraph } from './dependency-graph';
+import { findStoryFiles, findStorySpecifiers } from './story-discovery';
+import { analyzeGlobalHtmlFiles, findGlobalFiles, listGlobalScripts } from './global-files';
+import {
+    buildNewChromaticConfig,
+    buildUpdatedChromaticConfig,
+    mergeExternals,
+    readDefaultChromaticConfig,
+} from './config-management';
+import { applyConfigFileToScripts } from './package-json';
+import { MissingProjectIdError, ProjectNotFoundError, StaleChangeError } from './errors';
+import { AnalyzeReport, ChromaticConfig, FileChange, ImpactReport, PreviewReport, ProjectMeta } from './types';
+
+export {
+    TurbosnapHelperError,
+    StorybookNotFoundError,
+    ProjectNotFoundError,
+    MissingProjectIdError,
+    StaleChangeError,
+} from './errors';
+export type { AnalyzeReport, ChromaticConfig, FileChange, ImpactReport, PreviewReport, ProjectMeta } from './types';
+
+/**
+ * Options for planning config changes
+ */
+export interface PlanConfigOptions {
+    /** Chromatic project ID, required when no config file exists yet. Replaces the ID of an existing config. */
+    projectId?: string;
+    /** Patterns to merge into `externals` */
+    externals?: string[];
+    /** Name of the script to add when package.json has no Chromatic script */
+    scriptName?: string;
+    /** Whether to point the package.json Chromatic scripts at the config file. Defaults to true. */
+    updateScripts?: boolean;
+}
+
+/**
+ * The planned result of configuring a project
+ */
+export interface ConfigPlan {
+    meta: ProjectMeta;
+    configPath: string;
+    config: ChromaticConfig;
+    changes: FileChange[];
+}
+
+const assertProject = (projectDir: string) => {
+    if (!fs.existsSync(projectDir) || !fs.statSync(projectDir).isDirectory()) {
+        throw new ProjectNotFoundError(`Storybook configuration directory not found: ${projectDir}`);
+    }
+};
+
+const planJsonWrite = (filePath: string, data: unknown): FileChange => ({
+    path: filePath,
+    before: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null,
+    after: JSON.stringify(data, null, 2),
+});
+
+/**
+ * Finds every Storybook configuration directory (`.storybook`) in the repository
+ */
+export const detectProjects = async (): Promise<string[]> =>
+    glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+/**
+ * Detects the Chromatic-relevant settings of a Storybook project from its main config
+ */
+export const buildProjectMeta = async (projectDir: string): Promise<ProjectMeta> => {
+    assertProject(projectDir);
+
+    const { JsPackageManagerFactory, findConfigFile, readConfig } = loadStorybookModules();
+    const mainConfigPath = findConfigFile('main', projectDir);
+    if (!mainConfigPath) {
+        throw new ProjectNotFoundError(`No Storybook main config found in ${projectDir}`);
+    }
+
+    const manager = JsPackageManagerFactory.getPackageManager() as any;
+    const mainConfig = await readConfig(mainConfigPath);
+    return buildMetaFromConfig(manager, mainConfig, projectDir, '');
+};
+
+/**
+ * Analyzes the imports of every story and MDX file the project's `stories` field points to,
+ * along with the components they render
+ */
+export const analyzeStories = async (projectDir: string): Promise<AnalyzeReport> => {
+    assertProject(projectDir);
+
+    const specifiers = await findStorySpecifiers(projectDir);
+    const storyFiles = await findStoryFiles(projectDir, specifiers);
+    return buildAnalyzeReport(
+        projectDir,
+        await analyzeStoryFiles(storyFiles, path.dirname(projectDir), { specifiers }),
+    );
+};
+
+/**
+ * Analyzes a project's preview files for imports that affect every story
+ */
+export const analyzePreview = async (projectDir: string): Promise<PreviewReport> => {
+    assertProject(projectDir);
+
+    const globalFiles = await findGlobalFiles(projectDir);
+    const scripts = listGlobalScripts(globalFiles);
+
+    if (scripts.length === 0 && globalFiles.htmlFiles.length === 0) {
+        throw new ProjectNotFoundError(`No preview files found in ${projectDir}`);
+    }
+
+    const rootDir = process.cwd();
+    const resolver = await createIndexedModuleResolver();
+    const results = await Promise.all(
+        scripts.map(({ file, kind }) => analyzePreviewFile(file, rootDir, { resolver, kind })),
+    );
+    const htmlFiles = await analyzeGlobalHtmlFiles(projectDir, globalFiles.htmlFiles);
+    return buildPreviewReport(projectDir, results, rootDir, htmlFiles);
+};
+
+/**
+ * Lists the story files that changes to the given files would retest, and whether the
+ * changes trigger a full rebuild
+ */
+export const analyzeImpact = async (projectDir: string, files: string[]): Promise<ImpactReport> => {
+    assertProject(projectDir);
+
+    const { storyFiles, previewFiles } = await findProjectEntryFiles(projectDir);
+    const graph = await buildDependencyGraph([...storyFiles, ...previewFiles], await createIndexedModuleResolver());
+    return buildImpactReport(projectDir, storyFiles, previewFiles, graph, files);
+};
+
+/**
+ * Plans the changes `init` would make for a project, without writing anything.
+ * Pass the returned changes to `applyConfigChanges` to write them.
+ */
+export const planConfigChanges = async (projectDir: string, options: PlanConfigOptions = {}): Promise<ConfigPlan> => {
+    const meta = await buildProjectMeta(projectDir);
+
+    const existingConfig = readDefaultChromaticConfig(projectDir) ?? readDefaultChromaticConfig(meta.storybookBaseDir);
+    const configPath = existingConfig?.path ?? path.join(meta.storybookBaseDir, 'chromatic.config.json');
+
+    let config: ChromaticConfig;
+    if (existingConfig) {
+        // Updating keeps the user's own fields; a passed project ID is the only thing that replaces one
+        config = buildUpdatedChromaticConfig(existingConfig.config, meta);
+        if (options.projectId) {
+            config = { ...config, projectId: options.projectId };
+        }
+    } else {
+        if (!options.projectId) {
+            throw new MissingProjectIdError(`A Chromatic project ID is required to create a config for ${projectDir}`);
+        }
+        config = buildNewChromaticConfig({}, meta, options.projectId);
+    }
+
+    if (options.externals && options.externals.length > 0) {
+        config = { ...config, externals: mergeExternals(config.externals || [], options.externals).externals };
+    }
+
+    const changes = [planJsonWrite(configPath, config)];
+
+    const packageJsonPath = path.join(meta.storybookBaseDir, 'package.json');
+    if (options.updateScripts !== false && fs.existsSync(packageJsonPath)) {
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        const relativeConfigPath = path.relative(meta.storybookBaseDir, configPath);
+        const updatedPackageJson = applyConfigFileToScripts(packageJson, relativeConfigPath, options.scriptName);
+        if (updatedPackageJson) {
+            changes.push(planJsonWrite(packageJsonPath, updatedPackageJson));
+        }
+    }
+
+    return {
+        meta,
+        configPath,
+        config,
+        changes: changes.filter((change) => change.before !== change.after),
+    };
+};
+
+/**
+ * Writes planned changes to disk. Throws StaleChangeError, before writing anything,
+ * if a file was modified after the changes were planned.
+ */
+export const applyConfigChanges = async (changes: FileChange[]): Promise<void> => {
+    changes.forEach((change) => {
+        const current = fs.existsSync(change.path) ? fs.readFileSync(change.path, 'utf-8') : null;
+        if (current !== change.before) {
+            throw new StaleChangeError(change.path);
+        }
+    });
+
+    changes.forEach((change) => fs.writeFileSync(change.path, change.after));
+};
@@ -0,0 +1,148 @@
+import path from 'path';
+import { buildReverseGraph, collectDependencies, findDependents } from './dependency-graph';
+import { createModuleResolver, ModuleResolver, splitPackageSpecifier } from './module-resolver';
+import { createExportTracer, ExportOrigin } from './export-tracer';
+import { findPackageDir, readJson } from './utils';
+import { findWorkspacePackageDir } from './workspace-detection';
+import { BarrelFileAnalysis, BarrelImportSuggestion, DependencyGraph } from './types';
+
+const stripExtension = (file: string) => file.replace(/\.(tsx?|jsx?|mjs|cjs|mts|cts)$/, '').replace(/\/index$/, '');
+
+/**
+ * Finds the directory of the package a bare specifier imports. Returns undefined for specifiers
+ * that only look like packages, such as tsconfig aliases like `@/components` or `baseUrl` imports.
+ */
+const findImportedPackageDir = (importer: string, source: string, barrel: string): string | undefined => {
+    if (source.startsWith('.') || path.isAbsolute(source)) {
+        return undefined;
+    }
+
+    const { packageName } = splitPackageSpecifier(source);
+    const workspacePackageDir = findWorkspacePackageDir(packageName, path.dirname(importer));
+    if (workspacePackageDir) {
+        return workspacePackageDir;
+    }
+
+    // Packages linked into node_modules resolve to the source of the package they belong to
+    const packageDir = findPackageDir(barrel);
+    return packageDir && readJson(path.join(packageDir, 'package.json'))?.name === packageName ? packageDir : undefined;
+};
+
+/**
+ * Works out the import specifier for a file. Imports of a package through its barrel become
+ * imports of a subpath of that package; other imports become paths relative to the importer.
+ */
+const toImportSource = (importer: string, originalSource: string, barrel: string, origin: string): string => {
+    const packageDir = findImportedPackageDir(importer, originalSource, barrel);
+    if (packageDir && !path.relative(packageDir, origin).startsWith('..')) {
+        const { packageName } = splitPackageSpecifier(originalSource);
+        return `${packageName}/${stripExtension(path.relative(packageDir, origin).split(path.sep).join('/'))}`;
+    }
+
+    const relative = stripExtension(path.relative(path.dirname(importer), origin).split(path.sep).join('/'));
+    return relative.startsWith('.') ? relative : `./${relative}`;
+};
+
+/**
+ * Picks the name to bind a default import through the barrel to: the origin's export name, or a
+ * name made from its file name when the origin exports it as default or as a namespace too
+ */
+const toLocalName = ({ file, name }: ExportOrigin): string => {
+    if (name !== 'default' && name !== '*') {
+        return name;
+    }
+    const baseName = path.basename(stripExtension(file.split(path.sep).join('/')));
+    const identifier = baseName.replace(/[^\w$]+(.)?/g, (_, next: string = '') => next.toUpperCase());
+    return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+/**
+ * Writes the import clause that binds each local name to the name its origin exports it under:
+ * `{ Button }`, `{ Button as Primary }` for renamed re-exports, a default import, or `* as Icons`
+ * for namespace re-exports
+ */
+const toImportClause = (imports: { local: string; imported: string }[]): string => {
+    const namespaceImport = imports.find(({ imported }) => imported === '*');
+    if (namespaceImport) {
+        return `* as ${namespaceImport.local}`;
+    }
+
+    const defaultImport = imports.find(({ imported }) => imported === 'default');
+    const namedImports = imports
+        .filter((imp) => imp !== defaultImport)
+        .map(({ local, imported }) => (local === imported ? local : `${imported} as ${local}`));
+
+    return [defaultImport?.local, namedImports.length > 0 ? `{ ${namedImports.join(', ')} }` : undefined]
+        .filter(Boolean)
+        .join(', ');
+};
+
+/**
+ * Finds barrel files in the stories' dependency trees. For each barrel, counts the stories that
+ * import through it and the files it pulls into their trees, and suggests direct import paths for
+ * the names imported from it.
+ */
+export const analyzeBarrels = (
+    graph: DependencyGraph,
+    storyFiles: string[],
+    resolver: ModuleResolver = createModuleResolver(),
+): BarrelFileAnalysis[] => {
+    const reverseGraph = buildReverseGraph(graph);
+    const storySet = new Set(storyFiles.map((file) => path.resolve(file)));
+    const findOrigin = createExportTracer(resolver, graph);
+
+    const suggestDirectImports = (barrel: string): BarrelImportSuggestion[] =>
+        (reverseGraph.get(barrel) ?? [])
+            .filter((importer) => !graph.get(importer)?.isBarrel)
+            .flatMap((importer) =>
+                graph
+                    .get(importer)!
+                    .staticImports.filter(
+                        (imp) => imp.names && graph.get(importer)!.resolvedImports[imp.source] === barrel,
+                    )
+                    .map((imp): BarrelImportSuggestion | undefined => {
+                        const replacements = new Map<
+                            string,
+                            { source: string; names: string[]; imports: { local: string; imported: string }[] }
+                        >();
+                        imp.names!.filter((name) => name !== '*').forEach((name) => {
+                            const origin = findOrigin(barrel, name);
+                            if (origin && origin.file !== barrel) {
+                                const source = toImportSource(importer, imp.source, barrel, origin.file);
+                                const local = name === 'default' ? toLocalName(origin) : name;
+                                // A namespace import can't share its import statement with named imports
+                                const key = origin.name === '*' ? `${source} * as ${local}` : source;
+                                const replacement = replacements.get(key) ?? { source, names: [], imports: [] };
+                                replacement.names.push(name);
+                                replacement.imports.push({ local, imported: origin.name });
+                                replacements.set(key, replacement);
+                            }
+                        });
+
+                        return replacements.size > 0
+                            ? {
+                                  file: path.relative(process.cwd(), importer),
+                                  line: imp.line,
+                                  column: imp.column,
+                                  source: imp.source,
+                                  replacements: [...replacements.values()].map(({ source, names, imports }) => ({
+                                      source,
+                                      names,
+                                      clause: toImportClause(imports),
+                                  })),
+                              }
+                            : undefined;
+                    })
+                    .filter((suggestion): suggestion is BarrelImportSuggestion => Boolean(suggestion)),
+            );
+
+    return [...graph.values()]
+        .filter((node) => node.isBarrel)
+        .map((node) => ({
+            file: path.relative(process.cwd(), node.file),
+            storyFiles: [...findDependents(reverseGraph, node.file).keys()].filter((file) => storySet.has(file)).length,
+            fanOut: collectDependencies(graph, node.file).length,
+            suggestions: suggestDirectImports(node.file),
+        }))
+        .sort((a, b) => b.storyFiles - a.storyFiles || b.fanOut - a.fanOut);
+};
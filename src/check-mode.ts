@@ -0,0 +1,184 @@
+import { glob } from 'fast-glob';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import { loadStorybookModules } from './storybook-resolver';
+import { ChromaticConfig, CliOptions, ConfigProblem, ProjectMeta } from './types';
+import { displayMessage } from './utils';
+import { buildProjectMeta, selectStorybookProject } from './project-detection';
+import { findDefaultChromaticConfig } from './config-management';
+import { getChromaticScripts, getConfigFileFromScript } from './package-json';
+
+const DIRECTORY_FIELDS = ['storybookBaseDir', 'storybookConfigDir', 'storybookBuildDir'] as const;
+
+/**
+ * Normalizes a directory for comparison, so `./packages/app/` and `packages/app` are treated as equal
+ */
+const normalizeDir = (dir: string) => path.normalize(dir).replace(/[\\/]+$/, '');
+
+/**
+ * Compares a Chromatic config against freshly detected project metadata
+ */
+export const checkConfig = (config: ChromaticConfig, meta: ProjectMeta): ConfigProblem[] => {
+    const problems: ConfigProblem[] = [];
+
+    DIRECTORY_FIELDS.forEach((field) => {
+        const actual = config[field];
+        if (actual === undefined) {
+            problems.push({ field, message: `${field} is missing`, expected: meta[field] });
+        } else if (normalizeDir(actual) !== normalizeDir(meta[field])) {
+            problems.push({
+                field,
+                message: `${field} doesn't match the detected project`,
+                expected: meta[field],
+                actual,
+            });
+        }
+    });
+
+    // `onlyChanged: false` disables TurboSnap just like leaving it out
+    if (!config.onlyChanged) {
+        problems.push({
+            field: 'onlyChanged',
+            message:
+                config.onlyChanged === undefined
+                    ? 'onlyChanged is missing, so TurboSnap is not enabled'
+                    : `onlyChanged is ${JSON.stringify(config.onlyChanged)}, so TurboSnap is not enabled`,
+            expected: 'true',
+        });
+    }
+
+    if (!config.$schema) {
+        problems.push({
+            field: '$schema',
+            message: '$schema is missing',
+            expected: 'https://www.chromatic.com/config-file.schema.json',
+        });
+    }
+
+    return problems;
+};
+
+/**
+ * Checks that the project's Chromatic scripts point at the config file
+ */
+export const checkPackageJsonScripts = (configPath: string, meta: ProjectMeta): ConfigProblem[] => {
+    const packageJsonPath = path.join(meta.storybookBaseDir, 'package.json');
+    if (!fs.existsSync(packageJsonPath)) {
+        return [];
+    }
+
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    const relativeConfigPath = path.relative(meta.storybookBaseDir, configPath);
+
+    return getChromaticScripts(packageJson).flatMap(([name, script]): ConfigProblem[] => {
+        const currentConfigPath = getConfigFileFromScript(script);
+
+        // Without the flag, Chromatic falls back to chromatic.config.json in the working directory
+        if (currentConfigPath === undefined) {
+            return relativeConfigPath === 'chromatic.config.json'
+                ? []
+                : [
+                      {
+                          field: `scripts.${name}`,
+                          message: `Script "${name}" doesn't pass --config-file`,
+                          expected: `--config-file '${relativeConfigPath}'`,
+                      },
+                  ];
+        }
+
+        return path.normalize(currentConfigPath) === path.normalize(relativeConfigPath)
+            ? []
+            : [
+                  {
+                      field: `scripts.${name}`,
+                      message: `Script "${name}" points to the wrong --config-file`,
+                      expected: relativeConfigPath,
+                      actual: currentConfigPath,
+                  },
+              ];
+    });
+};
+
+/**
+ * Check mode for validating an existing Chromatic config against the detected project
+ */
+export const checkMode = async (options: CliOptions) => {
+    displayMessage('Checking your Chromatic config against your Storybook project', {
+        title: '🩺 Check Mode',
+        borderColor: 'magenta',
+    });
+
+    const storybookDirs = await glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+    if (storybookDirs.length === 0) {
+        displayMessage(
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.',
+            { title: '❌ No Storybook Config Found', borderColor: 'yellow' },
+        );
+        process.exit(1);
+    }
+
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
+        message: 'Which Storybook project would you like to check?',
+        describe: (dir) => `Check the Chromatic config for ${dir}`,
+        exitDescription: 'Exit the checker',
+    });
+
+    if (selectedProject === 'exit') {
+        process.exit(0);
+    }
+
+    const { JsPackageManagerFactory, findConfigFile, readConfig } = loadStorybookModules();
+    const manager = JsPackageManagerFactory.getPackageManager() as any;
+    const mainConfig = await readConfig(findConfigFile('main', selectedProject));
+    const meta = await buildProjectMeta(manager, mainConfig, selectedProject, '');
+
+    // Checking never prompts, so it can run unattended in CI
+    const existingConfig = findDefaultChromaticConfig(selectedProject, meta);
+
+    if (!existingConfig) {
+        displayMessage(
+            `No Chromatic config file found for ${chalk.cyan(selectedProject)}. Run ${chalk.cyan(
+                'npx @chromatic-com/turbosnap-helper init',
+            )} to create one.`,
+            { title: '❌ No Config Found', borderColor: 'red' },
+        );
+        process.exit(1);
+    }
+
+    const problems = [
+        ...checkConfig(existingConfig.config, meta),
+        ...checkPackageJsonScripts(existingConfig.path, meta),
+    ];
+    const configFile = path.relative(process.cwd(), existingConfig.path);
+
+    if (problems.length === 0) {
+        displayMessage(`✅ ${chalk.cyan(configFile)} matches your Storybook project.`, {
+            title: '🩺 Config Check',
+            borderColor: 'green',
+        });
+        process.exit(0);
+    }
+
+    displayMessage(
+        `Found ${chalk.red(problems.length)} ${problems.length === 1 ? 'problem' : 'problems'} in ${chalk.cyan(
+            configFile,
+        )}:\n\n${problems
+            .map((problem) =>
+                [
+                    `🚨 ${problem.message}`,
+                    problem.actual !== undefined ? `   Current:  ${chalk.yellow(problem.actual)}` : '',
+                    problem.expected !== undefined ? `   Expected: ${chalk.green(problem.expected)}` : '',
+                ]
+                    .filter(Boolean)
+                    .join('\n'),
+            )
+            .join('\n\n')}\n\nRun ${chalk.cyan('npx @chromatic-com/turbosnap-helper init')} to update the config.`,
+        { title: '🩺 Config Check', borderColor: 'red' },
+    );
+    process.exit(1);
+};
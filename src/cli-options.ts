@@ -0,0 +1,136 @@
+import { prompt } from 'prompts';
+import { AssetLevel, CliOptions, ExternalsStyle, OutputFormat } from './types';
+import { CliOptionsError } from './errors';
+
+/**
+ * The options whose values are of type `T`
+ */
+type OptionKey<T> = { [K in keyof CliOptions]-?: CliOptions[K] extends T | undefined ? K : never }[keyof CliOptions];
+
+type FlagDefinition =
+    | { key: OptionKey<boolean>; type: 'boolean' }
+    | { key: OptionKey<string>; type: 'string'; choices?: readonly string[] };
+
+const ASSET_LEVELS: readonly AssetLevel[] = ['project', 'repo', 'both', 'none'];
+const EXTERNALS_STYLES: readonly ExternalsStyle[] = ['glob', 'individual'];
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json'];
+
+/**
+ * Supported flags, keyed by their command line name
+ */
+const FLAGS: Record<string, FlagDefinition> = {
+    '--project': { key: 'project', type: 'string' },
+    '--project-id': { key: 'projectId', type: 'string' },
+    '--assets': { key: 'assets', type: 'string', choices: ASSET_LEVELS },
+    '--externals-style': { key: 'externalsStyle', type: 'string', choices: EXTERNALS_STYLES },
+    '--script-name': { key: 'scriptName', type: 'string' },
+    '--yes': { key: 'yes', type: 'boolean' },
+    '-y': { key: 'yes', type: 'boolean' },
+    '--dry-run': { key: 'dryRun', type: 'boolean' },
+    '--all': { key: 'all', type: 'boolean' },
+    '--format': { key: 'format', type: 'string', choices: OUTPUT_FORMATS },
+    '--sarif': { key: 'sarif', type: 'string' },
+    '--base': { key: 'base', type: 'string' },
+    '--no-cache': { key: 'noCache', type: 'boolean' },
+    '--all-projects': { key: 'allProjects', type: 'boolean' },
+};
+
+/**
+ * Sets an option, checking the value against the option's type in `CliOptions`
+ */
+const setOption = <K extends keyof CliOptions>(options: CliOptions, key: K, value: CliOptions[K]) => {
+    options[key] = value;
+};
+
+/**
+ * Parses the command line arguments following the node binary and script path.
+ * The first positional argument (or mode flag such as `--analyze`) selects the mode,
+ * and any further positional arguments are collected as file paths.
+ */
+export const parseCliOptions = (argv: string[]): CliOptions => {
+    const options: CliOptions = {
+        mode: 'init',
+        yes: false,
+        dryRun: false,
+        all: false,
+        format: 'text',
+        allProjects: false,
+        noCache: false,
+        files: [],
+    };
+    let modeSet = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const [name, inlineValue] = arg.startsWith('--') && arg.includes('=') ? arg.split(/=(.*)/s) : [arg, undefined];
+        const flag = FLAGS[name];
+
+        if (!flag) {
+            // The first unrecognized argument is the mode, e.g. `analyze` or `--preview`
+            if (!modeSet) {
+                options.mode = arg;
+                modeSet = true;
+                continue;
+            }
+            if (!arg.startsWith('-')) {
+                options.files.push(arg);
+                continue;
+            }
+            throw new CliOptionsError(`Unknown option: ${arg}`);
+        }
+
+        if (flag.type === 'boolean') {
+            setOption(options, flag.key, true);
+            continue;
+        }
+
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined || value === '' || value.startsWith('-')) {
+            throw new CliOptionsError(`Option ${name} requires a value`);
+        }
+        if (flag.choices && !flag.choices.includes(value)) {
+            throw new CliOptionsError(
+                `Invalid value for ${name}: ${value}. Expected one of: ${flag.choices.join(', ')}`,
+            );
+        }
+        setOption(options, flag.key, value);
+    }
+
+    return options;
+};
+
+/**
+ * Whether prompts may be shown. Prompts are skipped when `--yes` is passed or when
+ * stdin is not a terminal (CI, piped input), so the helper never waits on stdin.
+ * JSON output never prompts either, since prompts would be mixed into the document on stdout.
+ */
+export const isInteractive = (options: CliOptions): boolean =>
+    !options.yes && options.format !== 'json' && Boolean(process.stdin.isTTY);
+
+/**
+ * Throws a descriptive error for an answer that can't be prompted for in non-interactive mode
+ */
+export const missingAnswer = (flag: string, description: string): never => {
+    throw new CliOptionsError(`Missing ${flag}: ${description} is required when running non-interactively.`);
+};
+
+/**
+ * Asks a yes/no question. `--yes` answers every confirmation with yes; without it,
+ * a confirmation can't be answered non-interactively and an error is thrown instead.
+ */
+export const confirm = async (options: CliOptions, message: string, initial = true): Promise<boolean> => {
+    if (options.yes) {
+        return true;
+    }
+    if (!isInteractive(options)) {
+        return missingAnswer('--yes', `confirming "${message}"`);
+    }
+
+    const { confirmed } = await prompt({
+        type: 'confirm',
+        name: 'confirmed',
+        message,
+        initial,
+    });
+    return confirmed;
+};
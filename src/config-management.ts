@@ -1,10 +1,12 @@
-import { ChromaticConfig, ProjectMeta } from './types';
+import { ChromaticConfig, CliOptions, ProjectMeta } from './types';
 import { displayMessage } from './utils';
+import { confirm, isInteractive, missingAnswer } from './cli-options';
+import { fileExists, isDryRun, readTextFile, writeJsonFile } from './file-changes';
 import { prompt } from 'prompts';
-import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import { glob } from 'fast-glob';
+import { minimatch } from 'minimatch';
 
 /**
  * Type for configuration result
@@ -14,21 +16,46 @@ export interface ConfigResult {
     config: ChromaticConfig;
 }
 
+/**
+ * Reads `chromatic.config.json` from a directory, if there is one
+ */
+export const readDefaultChromaticConfig = (dir: string): ConfigResult | null => {
+    const defaultConfigPath = path.join(dir, 'chromatic.config.json');
+    if (!fileExists(defaultConfigPath)) {
+        return null;
+    }
+
+    return {
+        path: defaultConfigPath,
+        config: JSON.parse(readTextFile(defaultConfigPath))
+    };
+};
+
+/**
+ * Finds the Chromatic config for a read-only check without ever prompting: `chromatic.config.json`
+ * in the Storybook config directory, or next to the project's package.json, where `init` writes it
+ */
+export const findDefaultChromaticConfig = (configDir: string, meta: ProjectMeta): ConfigResult | null =>
+    readDefaultChromaticConfig(configDir) ?? readDefaultChromaticConfig(meta.storybookBaseDir);
+
 /**
  * Finds existing Chromatic configuration files
  */
-export const findChromaticConfig = async (storybookDir: string): Promise<{ path: string; config: ChromaticConfig } | null> => {
+export const findChromaticConfig = async (
+    storybookDir: string,
+    options: CliOptions,
+): Promise<{ path: string; config: ChromaticConfig } | null> => {
     // First check for chromatic.config.json in the Storybook directory
-    const defaultConfigPath = path.join(storybookDir, 'chromatic.config.json');
-    if (fs.existsSync(defaultConfigPath)) {
-        displayMessage(
-            `Found default config file: ${chalk.cyan(path.relative(process.cwd(), defaultConfigPath))}`,
-            { title: '📝 Config File Found', borderColor: 'green' }
-        );
-        return {
-            path: defaultConfigPath,
-            config: JSON.parse(fs.readFileSync(defaultConfigPath, 'utf-8'))
-        };
+    const defaultConfig = readDefaultChromaticConfig(storybookDir);
+    if (defaultConfig) {
+        // Keep stdout clean for JSON output
+        if (options.format !== 'json') {
+            displayMessage(
+                `Found default config file: ${chalk.cyan(path.relative(process.cwd(), defaultConfig.path))}`,
+                { title: '📝 Config File Found', borderColor: 'green' }
+            );
+        }
+        return defaultConfig;
     }
 
     // If no default config found, search for other config files
@@ -37,7 +64,8 @@ export const findChromaticConfig = async (storybookDir: string): Promise<{ path:
         cwd: storybookDir
     });
 
-    if (configFiles.length === 0) {
+    // Other config files are only offered interactively; there's no safe way to pick one unattended
+    if (configFiles.length === 0 || !isInteractive(options)) {
         return null;
     }
 
@@ -46,12 +74,7 @@ export const findChromaticConfig = async (storybookDir: string): Promise<{ path:
         { title: '📝 Config Files Found', borderColor: 'magenta' }
     );
 
-    const { useExisting } = await prompt({
-        type: 'confirm',
-        name: 'useExisting',
-        message: 'Would you like to use one of these existing config files?',
-        initial: true,
-    });
+    const useExisting = await confirm(options, 'Would you like to use one of these existing config files?');
 
     if (!useExisting) {
         return null;
@@ -71,14 +94,100 @@ export const findChromaticConfig = async (storybookDir: string): Promise<{ path:
     const configPath = path.join(storybookDir, selectedConfig);
     return {
         path: configPath,
-        config: JSON.parse(fs.readFileSync(configPath, 'utf-8'))
+        config: JSON.parse(readTextFile(configPath))
     };
 };
 
+/**
+ * Builds the contents of a new Chromatic config, preserving any properties of a config already on disk
+ */
+export const buildNewChromaticConfig = (
+    existingConfig: ChromaticConfig,
+    meta: ProjectMeta,
+    projectId: string,
+): ChromaticConfig => ({
+    // Needed to spread to new config as well in order for properties to prevserve for existing config
+    // TODO: investigate how to best clean this up
+    ...existingConfig,
+    $schema: 'https://www.chromatic.com/config-file.schema.json',
+    projectId: `Project:${projectId.replace('Project:', '')}`,
+    storybookBaseDir: meta.storybookBaseDir,
+    storybookConfigDir: meta.storybookConfigDir,
+    storybookBuildDir: meta.storybookBuildDir,
+    onlyChanged: true,
+});
+
+/**
+ * Builds an updated Chromatic config with the detected Storybook paths, preserving every other option
+ */
+export const buildUpdatedChromaticConfig = (existingConfig: ChromaticConfig, meta: ProjectMeta): ChromaticConfig => ({
+    // Add any other properties from the existing config
+    ...existingConfig,
+    // Copy all existing properties
+    $schema: existingConfig.$schema || 'https://www.chromatic.com/config-file.schema.json',
+    projectId: existingConfig.projectId,
+    onlyChanged: existingConfig.onlyChanged,
+    externals: existingConfig.externals,
+    // Update the Storybook paths
+    storybookBaseDir: meta.storybookBaseDir,
+    storybookConfigDir: meta.storybookConfigDir,
+    storybookBuildDir: meta.storybookBuildDir,
+});
+
+/**
+ * Merges new externals patterns into existing ones. Existing paths that a new pattern
+ * covers are replaced by that pattern; everything else is kept.
+ */
+export const mergeExternals = (
+    existingExternals: string[],
+    externals: string[],
+): { externals: string[]; removedPaths: string[]; addedPatterns: string[] } => {
+    // Create a new array to store the updated externals
+    const newExternals: string[] = [];
+    const removedPaths: string[] = [];
+    const addedPatterns: string[] = [];
+
+    // First, process existing externals
+    existingExternals.forEach((existingPath) => {
+        // Check if this existing path is matched by any new pattern
+        const matchingPattern = externals.find((newPattern) => {
+            // If the existing path is a specific file
+            if (!existingPath.includes('*') && !existingPath.includes('?')) {
+                // Check if this specific file would be matched by the new pattern
+                return minimatch(existingPath, newPattern);
+            }
+            // If the existing path is a glob pattern
+            // Check if the new pattern would match the same files
+            return minimatch(existingPath, newPattern) || minimatch(newPattern, existingPath);
+        });
+
+        if (matchingPattern) {
+            removedPaths.push(existingPath);
+            // Add the matching pattern if it's not already in newExternals
+            if (!newExternals.includes(matchingPattern)) {
+                newExternals.push(matchingPattern);
+                addedPatterns.push(matchingPattern);
+            }
+        } else {
+            newExternals.push(existingPath);
+        }
+    });
+
+    // Then add any remaining new patterns that aren't already covered
+    externals.forEach((newPattern) => {
+        if (!newExternals.includes(newPattern)) {
+            newExternals.push(newPattern);
+            addedPatterns.push(newPattern);
+        }
+    });
+
+    return { externals: newExternals, removedPaths, addedPatterns };
+};
+
 /**
  * Creates a new Chromatic configuration file
  */
-export const createChromaticConfig = async (meta: ProjectMeta): Promise<ConfigResult> => {
+export const createChromaticConfig = async (meta: ProjectMeta, options: CliOptions): Promise<ConfigResult> => {
     displayMessage(
         `I'll help you create a Chromatic config file with your Storybook settings.`,
         { title: '📝 Creating Chromatic Config', borderColor: 'magenta' }
@@ -89,15 +198,24 @@ export const createChromaticConfig = async (meta: ProjectMeta): Promise<ConfigRe
     let existingConfig: ChromaticConfig = {};
 
     // Check if config file already exists
-    if (fs.existsSync(configPath)) {
-        existingConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    if (fileExists(configPath)) {
+        existingConfig = JSON.parse(readTextFile(configPath));
         if (existingConfig.projectId) {
             projectId = existingConfig.projectId.replace('Project:', '');
         }
     }
 
+    // A project ID passed on the command line takes precedence over the existing one
+    if (options.projectId) {
+        projectId = options.projectId.replace('Project:', '');
+    }
+
     // Only ask for project ID if we don't have one
     if (!projectId) {
+        if (!isInteractive(options)) {
+            missingAnswer('--project-id', 'the Chromatic project ID');
+        }
+
         const { newProjectId } = await prompt({
             type: 'text',
             name: 'newProjectId',
@@ -110,21 +228,10 @@ export const createChromaticConfig = async (meta: ProjectMeta): Promise<ConfigRe
         projectId = newProjectId;
     }
 
-    // Create new config preserving all existing properties
-    // Needed to spread to new config as well in order for properties to prevserve for existing config
-    // TODO: investigate how to best clean this up
-    const config: ChromaticConfig = {
-        ...existingConfig,
-        $schema: 'https://www.chromatic.com/config-file.schema.json',
-        projectId: `Project:${projectId}`,
-        storybookBaseDir: meta.storybookBaseDir,
-        storybookConfigDir: meta.storybookConfigDir,
-        storybookBuildDir: meta.storybookBuildDir,
-        onlyChanged: true,
-    };
+    const config = buildNewChromaticConfig(existingConfig, meta, projectId);
 
-    // Write the new config immediately
-    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    // Write the new config immediately (or stage it for review during a dry run)
+    writeJsonFile(configPath, config);
 
     return { path: configPath, config };
 };
@@ -143,29 +250,17 @@ export const updateChromaticConfig = async (
     );
 
     // Create a new config object by explicitly copying all properties
-    const updatedConfig: ChromaticConfig = {
-        // Add any other properties from the existing config
-        ...existingConfig,
-        // Copy all existing properties
-        $schema: existingConfig.$schema || 'https://www.chromatic.com/config-file.schema.json',
-        projectId: existingConfig.projectId,
-        onlyChanged: existingConfig.onlyChanged,
-        externals: existingConfig.externals,
-        // Update the Storybook paths
-        storybookBaseDir: meta.storybookBaseDir,
-        storybookConfigDir: meta.storybookConfigDir,
-        storybookBuildDir: meta.storybookBuildDir,
-    };
+    const updatedConfig = buildUpdatedChromaticConfig(existingConfig, meta);
 
-    // Write the updated config immediately
-    fs.writeFileSync(configPath, JSON.stringify(updatedConfig, null, 2));
+    // Write the updated config immediately (or stage it for review during a dry run)
+    writeJsonFile(configPath, updatedConfig);
 
     displayMessage(
-        `Updated Chromatic config with new Storybook paths:\n` +
+        `${isDryRun() ? 'Would update' : 'Updated'} Chromatic config with new Storybook paths:\n` +
         `  - Base Directory: ${meta.storybookBaseDir}\n` +
         `  - Config Directory: ${meta.storybookConfigDir}\n` +
         `  - Build Directory: ${meta.storybookBuildDir}\n` +
-        `All other configuration options have been preserved.`,
+        `All other configuration options ${isDryRun() ? 'would be' : 'have been'} preserved.`,
         { title: '📝 Config Updated', borderColor: 'green' }
     );
 
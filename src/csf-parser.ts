@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import type { types as t } from 'storybook/internal/babel';
+import type { CsfFile } from 'storybook/internal/csf-tools';
+import type { NormalizedStoriesSpecifier } from 'storybook/internal/types';
+import { loadStorybookModules } from './storybook-resolver';
+import { getNodeSource, getPropertyName } from './import-parser';
+import { createModuleResolver, ModuleResolver } from './module-resolver';
+import { createExportTracer } from './export-tracer';
+import { ComponentReference, CsfMetadata } from './types';
+
+/**
+ * Builds a title from the story file's path, for story files that let Storybook generate one
+ * and that no `stories` entry in main.js matches. Storybook's own titles depend on that entry,
+ * so story ids built from this title are approximate.
+ */
+const getFallbackTitle = (filePath: string) =>
+    path
+        .relative(process.cwd(), filePath)
+        .split(path.sep)
+        .join('/')
+        .replace(/\.(stories|story)\.[^.]+$/, '');
+
+/**
+ * Returns the path Storybook imports a story file by: relative to the working directory, starting with `./`
+ */
+const getImportPath = (filePath: string) => `./${path.relative(process.cwd(), filePath).split(path.sep).join('/')}`;
+
+/**
+ * Finds the `stories` entry in main.js that loads a story file, the first one whose globs match it
+ */
+export const findStoriesEntry = (
+    filePath: string,
+    specifiers: NormalizedStoriesSpecifier[],
+): NormalizedStoriesSpecifier | undefined =>
+    specifiers.find((specifier) => specifier.importPathMatcher.test(getImportPath(filePath)));
+
+/**
+ * Finds the identifier an expression like `Form.Field` starts with
+ */
+const getRootIdentifier = (node: t.Node): string | undefined => {
+    let root = node;
+    while (root.type === 'MemberExpression') {
+        root = root.object;
+    }
+    return root.type === 'Identifier' ? root.name : undefined;
+};
+
+/**
+ * Works out which export of the imported module a component expression refers to: the imported
+ * name, or for namespace imports like `Form.Field`, the property read from the namespace
+ */
+const getImportedName = (specifier: t.ImportDeclaration['specifiers'][number], node: t.Node): string | undefined => {
+    if (specifier.type === 'ImportDefaultSpecifier') {
+        return 'default';
+    }
+    if (specifier.type === 'ImportSpecifier') {
+        return getPropertyName(specifier.imported);
+    }
+    return node.type === 'MemberExpression' && node.object.type === 'Identifier' && !node.computed
+        ? getPropertyName(node.property)
+        : undefined;
+};
+
+/**
+ * Returns true when the program declares a top-level binding with the given name
+ */
+const declaresBinding = (program: t.Program, name: string) =>
+    program.body.some((statement) => {
+        const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+        if (declaration?.type === 'VariableDeclaration') {
+            return declaration.declarations.some(
+                (declarator) => declarator.id.type === 'Identifier' && declarator.id.name === name,
+            );
+        }
+        const id = declaration && 'id' in declaration ? declaration.id : undefined;
+        return id?.type === 'Identifier' && id.name === name;
+    });
+
+/**
+ * Reads a story file with Storybook's CSF parser, and resolves the component and subcomponents
+ * in its meta to the files they're declared in, following re-exports through barrel files.
+ * Titles and story ids are built the way Storybook builds them for the `stories` entry that
+ * loads the file, including its `titlePrefix`.
+ * Throws when the file isn't valid CSF, such as when it has no default export.
+ */
+export const parseCsfFile = (
+    filePath: string,
+    resolver: ModuleResolver = createModuleResolver(),
+    findExportOrigin = createExportTracer(resolver),
+    storiesEntry?: NormalizedStoriesSpecifier,
+): CsfMetadata => {
+    const { loadCsf, userOrAutoTitleFromSpecifier } = loadStorybookModules();
+    const code = fs.readFileSync(filePath, 'utf-8');
+
+    let title: string | undefined;
+    const csf: CsfFile = loadCsf(code, {
+        fileName: filePath,
+        makeTitle: (userTitle?: string) => {
+            const entryTitle: string | undefined =
+                storiesEntry && userOrAutoTitleFromSpecifier(getImportPath(filePath), storiesEntry, userTitle);
+            title = userTitle && (entryTitle ?? userTitle);
+            return entryTitle ?? userTitle ?? getFallbackTitle(filePath);
+        },
+    }).parse();
+    const { program } = csf._ast;
+
+    const resolveComponent = (node: t.Node): ComponentReference => {
+        const component: ComponentReference = { name: getNodeSource(code, node) };
+        const identifier = getRootIdentifier(node);
+        if (!identifier) {
+            return component;
+        }
+
+        const importDeclaration = program.body.find(
+            (statement): statement is t.ImportDeclaration =>
+                statement.type === 'ImportDeclaration' &&
+                statement.specifiers.some((specifier) => specifier.local.name === identifier),
+        );
+
+        if (importDeclaration) {
+            component.source = importDeclaration.source.value;
+            const resolved = resolver.resolve(component.source, filePath);
+            if (resolved.type === 'file') {
+                const specifier = importDeclaration.specifiers.find(
+                    (specifier) => specifier.local.name === identifier,
+                )!;
+                const importedName = getImportedName(specifier, node);
+                const origin = (importedName && findExportOrigin(resolved.path, importedName)?.file) || resolved.path;
+                component.file = path.relative(process.cwd(), origin);
+            }
+        } else if (declaresBinding(program, identifier)) {
+            component.file = path.relative(process.cwd(), filePath);
+        }
+
+        return component;
+    };
+
+    const { component, subcomponents } = csf._metaAnnotations;
+
+    return {
+        title,
+        ...(component && { component: resolveComponent(component) }),
+        subcomponents:
+            subcomponents?.type === 'ObjectExpression'
+                ? subcomponents.properties.flatMap((property) =>
+                      property.type === 'ObjectProperty' ? [resolveComponent(property.value)] : [],
+                  )
+                : [],
+        stories: Object.entries(csf._stories).map(([exportName, story]) => ({
+            exportName,
+            name: story.name,
+            id: story.id,
+        })),
+    };
+};
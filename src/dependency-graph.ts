@@ -0,0 +1,194 @@
+import { glob } from 'fast-glob';
+import fs from 'fs';
+import path from 'path';
+import { AnalysisCache, getCachedFileImports } from './analysis-cache';
+import { analyzeFileImports, listContextFiles } from './import-parser';
+import { createModuleResolver, isSourceFile, ModuleResolver } from './module-resolver';
+import { DependencyGraph, DependencyNode, ResolvedModule } from './types';
+import { mapWithConcurrency } from './worker-pool';
+
+/**
+ * Lists the source files a context module bundles, such as every file under `./icons`
+ * for `` import(`./icons/${name}`) ``
+ */
+const getContextFiles = (contextDirectory: string): string[] =>
+    glob
+        .sync('**/*', {
+            cwd: path.resolve(contextDirectory),
+            absolute: true,
+            onlyFiles: true,
+            ignore: ['**/node_modules/**'],
+        })
+        .map((file) => path.resolve(file));
+
+/**
+ * Parses a file and resolves its imports. Files that can't contain imports, like stylesheets
+ * and images, are leaves in the graph. With a cache, unchanged files aren't parsed again, and
+ * their imports keep resolving to the same files for as long as those files exist.
+ */
+const analyzeModule = async (
+    file: string,
+    resolver: ModuleResolver,
+    cache?: AnalysisCache,
+): Promise<DependencyNode> => {
+    const node: DependencyNode = {
+        file,
+        staticImports: [],
+        dynamicImports: [],
+        dependencies: [],
+        externals: [],
+        unresolvedImports: [],
+        resolvedImports: {},
+    };
+
+    if (!isSourceFile(file)) {
+        return node;
+    }
+
+    // Read asynchronously so several files can load at once; read errors are reported as parse errors
+    const code = await fs.promises.readFile(file, 'utf-8').catch(() => undefined);
+    if (code === undefined) {
+        Object.assign(node, analyzeFileImports(file, code));
+        return node;
+    }
+
+    const { analysis, entry } = getCachedFileImports(file, code, cache);
+    Object.assign(node, analysis);
+
+    const resolutions: Record<string, ResolvedModule> = {};
+    let resolutionsChanged = !entry?.resolutions;
+    const resolve = (source: string): ResolvedModule => {
+        const cached = entry?.resolutions?.[source];
+        if (cached && cached.type !== 'unresolved' && (cached.type !== 'file' || resolver.isFile(cached.path))) {
+            return (resolutions[source] = cached);
+        }
+        resolutionsChanged = true;
+        return (resolutions[source] = resolver.resolve(source, file));
+    };
+
+    const dependencies = new Set<string>();
+    const externals = new Set<string>();
+
+    [...node.staticImports, ...node.dynamicImports].forEach((imp) => {
+        if (imp.traceability === 'untraceable') {
+            return;
+        }
+
+        if (imp.traceability === 'context') {
+            if (imp.contextFilter) {
+                // `require.context` and `import.meta.glob` only bundle the files their filter matches
+                listContextFiles(imp).forEach((contextFile) => dependencies.add(contextFile));
+            } else if (imp.contextDirectory && /^['"`]\./.test(imp.source)) {
+                // Only context modules with a relative prefix, like `./icons/`, point into the repository
+                getContextFiles(imp.contextDirectory).forEach((contextFile) => dependencies.add(contextFile));
+            }
+            return;
+        }
+
+        const resolved = resolve(imp.source);
+        if (resolved.type === 'file') {
+            dependencies.add(resolved.path);
+            node.resolvedImports[imp.source] = resolved.path;
+        } else if (resolved.type === 'external') {
+            externals.add(resolved.packageName);
+        } else if (resolved.type === 'unresolved') {
+            node.unresolvedImports.push(imp);
+        }
+    });
+
+    if (resolutionsChanged) {
+        cache?.set(file, code, { resolutions });
+    }
+
+    dependencies.delete(file);
+    node.dependencies = [...dependencies];
+    node.externals = [...externals];
+    return node;
+};
+
+/**
+ * Builds the graph of every file reachable from the entry files by following static imports,
+ * traceable dynamic imports and context modules, across tsconfig aliases and workspace packages.
+ * Untraceable dynamic imports and packages installed in `node_modules` are not followed.
+ * Files are analyzed a level at a time, several at once, and `onProgress` is called with the
+ * number of files analyzed so far. Pass an analysis cache to skip files that haven't changed.
+ */
+export const buildDependencyGraph = async (
+    entryFiles: string[],
+    resolver: ModuleResolver = createModuleResolver(),
+    { onProgress, cache }: { onProgress?: (analyzedFiles: number) => void; cache?: AnalysisCache } = {},
+): Promise<DependencyGraph> => {
+    const graph: DependencyGraph = new Map();
+    let level = [...new Set(entryFiles.map((file) => path.resolve(file)))];
+
+    while (level.length > 0) {
+        const nodes = await mapWithConcurrency(level, (file) => analyzeModule(file, resolver, cache), {
+            onResult: (node) => {
+                graph.set(node.file, node);
+                onProgress?.(graph.size);
+            },
+        });
+        level = [...new Set(nodes.flatMap((node) => node.dependencies.filter((dependency) => !graph.has(dependency))))];
+    }
+
+    return graph;
+};
+
+/**
+ * Returns every file an entry file depends on, directly or transitively, not including itself
+ */
+export const collectDependencies = (graph: DependencyGraph, entryFile: string): string[] => {
+    const entry = path.resolve(entryFile);
+    const visited = new Set<string>([entry]);
+    const stack = [entry];
+
+    while (stack.length > 0) {
+        const node = graph.get(stack.pop()!);
+        node?.dependencies.forEach((dependency) => {
+            if (!visited.has(dependency)) {
+                visited.add(dependency);
+                stack.push(dependency);
+            }
+        });
+    }
+
+    visited.delete(entry);
+    return [...visited];
+};
+
+/**
+ * Inverts a dependency graph, mapping each file to the files that import it
+ */
+export const buildReverseGraph = (graph: DependencyGraph): Map<string, string[]> => {
+    const reverseGraph = new Map<string, string[]>();
+    graph.forEach((node) => {
+        node.dependencies.forEach((dependency) => {
+            reverseGraph.set(dependency, [...(reverseGraph.get(dependency) ?? []), node.file]);
+        });
+    });
+    return reverseGraph;
+};
+
+/**
+ * Finds every file that depends on the given file, directly or transitively. Each dependent is
+ * mapped to its shortest import chain, starting at the dependent and ending at the given file.
+ */
+export const findDependents = (reverseGraph: Map<string, string[]>, file: string): Map<string, string[]> => {
+    const target = path.resolve(file);
+    const chains = new Map<string, string[]>([[target, [target]]]);
+    const queue = [target];
+
+    // Breadth first, so the first chain found to each dependent is the shortest
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        (reverseGraph.get(current) ?? []).forEach((importer) => {
+            if (!chains.has(importer)) {
+                chains.set(importer, [importer, ...chains.get(current)!]);
+                queue.push(importer);
+            }
+        });
+    }
+
+    chains.delete(target);
+    return chains;
+};
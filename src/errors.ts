@@ -0,0 +1,48 @@
+/**
+ * Base class for errors thrown by the helper, so callers can tell them apart from unexpected failures
+ */
+export class TurbosnapHelperError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when the command line cannot be parsed, or when an answer that would
+ * normally be prompted for is missing while running non-interactively
+ */
+export class CliOptionsError extends TurbosnapHelperError {}
+
+/**
+ * Thrown when Storybook's modules can't be resolved from the current project
+ */
+export class StorybookNotFoundError extends TurbosnapHelperError {
+    constructor() {
+        super('Could not find Storybook modules. Please ensure you are running this tool within a Storybook project.');
+    }
+}
+
+/**
+ * Thrown when a Storybook project or one of its files can't be found
+ */
+export class ProjectNotFoundError extends TurbosnapHelperError {}
+
+/**
+ * Thrown when a planned change no longer matches the file on disk
+ */
+export class StaleChangeError extends TurbosnapHelperError {
+    constructor(public readonly filePath: string) {
+        super(`${filePath} changed after the changes were planned. Plan the changes again before applying them.`);
+    }
+}
+
+/**
+ * Thrown when a config file has to be created but no Chromatic project ID was given
+ */
+export class MissingProjectIdError extends TurbosnapHelperError {}
+
+/**
+ * Thrown when a git command fails, for example because the base ref doesn't exist
+ */
+export class GitCommandError extends TurbosnapHelperError {}
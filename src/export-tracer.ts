@@ -0,0 +1,170 @@
+import fs from 'fs';
+import type { types as t } from 'storybook/internal/babel';
+import { parseSource } from './import-parser';
+import { createModuleResolver, ModuleResolver } from './module-resolver';
+import { DependencyGraph } from './types';
+
+/**
+ * What a module exports: names it declares itself, names it re-exports from another module
+ * (mapped to the name in that module), and modules it re-exports wholesale with `export *`
+ */
+interface ModuleExports {
+    local: Set<string>;
+    named: Map<string, { source: string; name: string }>;
+    star: string[];
+}
+
+const getName = (node: t.Identifier | t.StringLiteral): string =>
+    node.type === 'StringLiteral' ? node.value : node.name;
+
+/**
+ * Reads the exports of a module from its top-level statements
+ */
+const readModuleExports = (file: string): ModuleExports => {
+    const exports: ModuleExports = { local: new Set(), named: new Map(), star: [] };
+    let program: t.Program;
+    try {
+        program = parseSource(fs.readFileSync(file, 'utf-8'), file).program;
+    } catch (error) {
+        return exports;
+    }
+
+    // `import { Button } from './Button'; export { Button };` re-exports too
+    const importedBindings = new Map<string, { source: string; name: string }>();
+    program.body.forEach((statement) => {
+        if (statement.type !== 'ImportDeclaration') {
+            return;
+        }
+        statement.specifiers.forEach((specifier) =>
+            importedBindings.set(specifier.local.name, {
+                source: statement.source.value,
+                name:
+                    specifier.type === 'ImportDefaultSpecifier'
+                        ? 'default'
+                        : specifier.type === 'ImportNamespaceSpecifier'
+                        ? '*'
+                        : getName(specifier.imported),
+            }),
+        );
+    });
+
+    program.body.forEach((statement) => {
+        switch (statement.type) {
+            case 'ExportDefaultDeclaration':
+                exports.local.add('default');
+                break;
+            case 'ExportAllDeclaration':
+                exports.star.push(statement.source.value);
+                break;
+            case 'ExportNamedDeclaration': {
+                const { declaration, source } = statement;
+                if (declaration?.type === 'VariableDeclaration') {
+                    declaration.declarations.forEach((declarator) => {
+                        if (declarator.id.type === 'Identifier') {
+                            exports.local.add(declarator.id.name);
+                        }
+                    });
+                } else if (declaration && 'id' in declaration && declaration.id?.type === 'Identifier') {
+                    exports.local.add(declaration.id.name);
+                }
+
+                statement.specifiers.forEach((specifier) => {
+                    const exported = getName(specifier.exported);
+                    if (source) {
+                        exports.named.set(exported, {
+                            source: source.value,
+                            // `export * as ns from` and `export v from` have no local name
+                            name:
+                                specifier.type === 'ExportSpecifier'
+                                    ? getName(specifier.local)
+                                    : specifier.type === 'ExportNamespaceSpecifier'
+                                    ? '*'
+                                    : 'default',
+                        });
+                    } else if (specifier.type === 'ExportSpecifier' && importedBindings.has(specifier.local.name)) {
+                        exports.named.set(exported, importedBindings.get(specifier.local.name)!);
+                    } else {
+                        exports.local.add(exported);
+                    }
+                });
+                break;
+            }
+        }
+    });
+
+    return exports;
+};
+
+/**
+ * The file that declares an export, and the name it exports it under there
+ */
+export interface ExportOrigin {
+    file: string;
+    /** `default`, `*` when the export is another module's namespace, or the export name */
+    name: string;
+}
+
+/**
+ * Creates a function that follows re-exports from a module to the file that declares an export,
+ * such as from an `index.ts` barrel to `Button.tsx`, along with its name there, since
+ * `export { Button as Primary }` renames it. Imports are looked up in the dependency graph
+ * when one is given, and resolved otherwise. Returns undefined for names it can't trace.
+ */
+export const createExportTracer = (resolver: ModuleResolver = createModuleResolver(), graph?: DependencyGraph) => {
+    const exportsCache = new Map<string, ModuleExports>();
+
+    const getExports = (file: string) => {
+        if (!exportsCache.has(file)) {
+            exportsCache.set(file, readModuleExports(file));
+        }
+        return exportsCache.get(file)!;
+    };
+
+    const resolveFrom = (file: string, source: string): string | undefined => {
+        const fromGraph = graph?.get(file)?.resolvedImports[source];
+        if (fromGraph) {
+            return fromGraph;
+        }
+        const resolved = resolver.resolve(source, file);
+        return resolved.type === 'file' ? resolved.path : undefined;
+    };
+
+    /**
+     * Follows re-exports to the file that declares an export
+     */
+    const findOrigin = (file: string, name: string, seen = new Set<string>()): ExportOrigin | undefined => {
+        if (seen.has(file)) {
+            return undefined;
+        }
+        seen.add(file);
+
+        const { local, named, star } = getExports(file);
+        if (local.has(name)) {
+            return { file, name };
+        }
+
+        const reExport = named.get(name);
+        if (reExport) {
+            const target = resolveFrom(file, reExport.source);
+            if (!target) {
+                return undefined;
+            }
+            const origin = { file: target, name: reExport.name };
+            return reExport.name === '*' ? origin : findOrigin(target, reExport.name, seen) ?? origin;
+        }
+
+        for (const source of star) {
+            const target = resolveFrom(file, source);
+            const origin = target && findOrigin(target, name, seen);
+            if (origin) {
+                return origin;
+            }
+        }
+
+        return undefined;
+    };
+
+    return findOrigin;
+};
+
+export type ExportTracer = ReturnType<typeof createExportTracer>;
@@ -0,0 +1,109 @@
+import { createTwoFilesPatch } from 'diff';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import { FileChange } from './types';
+
+/**
+ * Writes staged during a dry run, keyed by absolute path so repeated writes to the same
+ * file collapse into a single change against the original contents
+ */
+const pendingWrites = new Map<string, FileChange>();
+let dryRun = false;
+
+/**
+ * Enables or disables dry-run mode. While enabled, writes are collected instead of hitting the disk.
+ */
+export const setDryRun = (enabled: boolean) => {
+    dryRun = enabled;
+};
+
+export const isDryRun = () => dryRun;
+
+const readIfExists = (filePath: string): string | null =>
+    fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+
+/**
+ * Whether a file exists, counting files a dry run has staged but not written
+ */
+export const fileExists = (filePath: string): boolean =>
+    pendingWrites.has(path.resolve(filePath)) || fs.existsSync(filePath);
+
+/**
+ * Reads a file, taking writes staged during a dry run into account
+ */
+export const readTextFile = (filePath: string): string => {
+    const pending = pendingWrites.get(path.resolve(filePath));
+    return pending ? pending.after : fs.readFileSync(filePath, 'utf-8');
+};
+
+/**
+ * Writes a JSON file, or stages the write when running a dry run
+ */
+export const writeJsonFile = (filePath: string, data: unknown) => {
+    const content = JSON.stringify(data, null, 2);
+    if (!dryRun) {
+        fs.writeFileSync(filePath, content);
+        return;
+    }
+
+    const key = path.resolve(filePath);
+    const existing = pendingWrites.get(key);
+    pendingWrites.set(key, {
+        path: filePath,
+        before: existing ? existing.before : readIfExists(filePath),
+        after: content,
+    });
+};
+
+/**
+ * Returns the writes staged so far, skipping any that would leave the file unchanged
+ */
+export const getPendingChanges = (): FileChange[] =>
+    [...pendingWrites.values()].filter((change) => change.before !== change.after);
+
+/**
+ * Formats a change as a colored unified diff
+ */
+export const formatDiff = (change: FileChange): string => {
+    const relativePath = path.relative(process.cwd(), change.path);
+    const patch = createTwoFilesPatch(
+        change.before === null ? '/dev/null' : `a/${relativePath}`,
+        `b/${relativePath}`,
+        change.before ?? '',
+        change.after,
+        undefined,
+        undefined,
+        { context: 3 },
+    );
+
+    return patch
+        .split('\n')
+        .filter((line) => !line.startsWith('=====')) // separator line added by jsdiff
+        .map((line) => {
+            if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+            if (line.startsWith('@@')) return chalk.cyan(line);
+            if (line.startsWith('+')) return chalk.green(line);
+            if (line.startsWith('-')) return chalk.red(line);
+            if (line.startsWith('\\')) return chalk.dim(line);
+            return line;
+        })
+        .join('\n');
+};
+
+/**
+ * Writes every staged change to disk and clears the queue
+ */
+export const applyPendingChanges = (): FileChange[] => {
+    const changes = getPendingChanges();
+    changes.forEach((change) => fs.writeFileSync(change.path, change.after));
+    pendingWrites.clear();
+    return changes;
+};
+
+/**
+ * Drops every staged change without writing it
+ */
+export const discardPendingChanges = () => {
+    pendingWrites.clear();
+};
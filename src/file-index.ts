@@ -0,0 +1,61 @@
+import { glob } from 'fast-glob';
+import path from 'path';
+import { createModuleResolver, fileSystemLookup, ModuleResolver } from './module-resolver';
+import { FileIndex, FileLookup } from './types';
+
+/**
+ * Directories left out of the index, which are checked on the file system instead
+ */
+const UNINDEXED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * Lists every file under a directory once, so resolving thousands of imports doesn't check the
+ * file system for every candidate path
+ */
+export const buildFileIndex = async (rootDir: string = process.cwd()): Promise<FileIndex> => {
+    const root = path.resolve(rootDir);
+    const files = await glob('**/*', {
+        cwd: root,
+        absolute: true,
+        onlyFiles: true,
+        dot: true,
+        ignore: UNINDEXED_DIRECTORIES.map((dir) => `**/${dir}/**`),
+    });
+
+    const index: FileIndex = { root, files: new Set(), directories: new Set([root]) };
+    files.forEach((file) => {
+        const filePath = path.resolve(file);
+        index.files.add(filePath);
+        for (let dir = path.dirname(filePath); !index.directories.has(dir); dir = path.dirname(dir)) {
+            index.directories.add(dir);
+        }
+    });
+
+    return index;
+};
+
+/**
+ * Checks paths against a file index, falling back to the file system for paths outside it
+ */
+export const createFileLookup = (index: FileIndex): FileLookup => {
+    const isIndexed = (filePath: string) => {
+        const relative = path.relative(index.root, filePath);
+        return (
+            !relative.startsWith('..') &&
+            !path.isAbsolute(relative) &&
+            !relative.split(path.sep).some((segment) => UNINDEXED_DIRECTORIES.includes(segment))
+        );
+    };
+
+    return {
+        isFile: (filePath) => (isIndexed(filePath) ? index.files.has(filePath) : fileSystemLookup.isFile(filePath)),
+        isDirectory: (filePath) =>
+            isIndexed(filePath) ? index.directories.has(filePath) : fileSystemLookup.isDirectory(filePath),
+    };
+};
+
+/**
+ * Creates a module resolver backed by an index of every file under a directory
+ */
+export const createIndexedModuleResolver = async (rootDir: string = process.cwd()): Promise<ModuleResolver> =>
+    createModuleResolver(createFileLookup(await buildFileIndex(rootDir)));
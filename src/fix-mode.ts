@@ -0,0 +1,197 @@
+import { glob } from 'fast-glob';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import { displayMessage } from './utils';
+import { CliOptions, StaticImportPlan } from './types';
+import { CliOptionsError, StaleChangeError } from './errors';
+import { confirm } from './cli-options';
+import { formatDiff } from './file-changes';
+import { planStaticImports } from './import-codemod';
+import { isSourceFile, ModuleResolver } from './module-resolver';
+import { createIndexedModuleResolver } from './file-index';
+import { buildDependencyGraph } from './dependency-graph';
+import { findProjectEntryFiles } from './impact-mode';
+import { selectStorybookProject } from './project-detection';
+
+/**
+ * Import kinds the codemod can turn into static imports, or reports as unsafe to
+ */
+const FIXABLE_KINDS = ['require', 'dynamic-literal', 'dynamic-non-literal'];
+
+/**
+ * Finds the files in a Storybook project's dependency trees that `require()` or dynamically
+ * import modules: its story and preview files and everything they import, outside `node_modules`
+ */
+const findFixableFiles = async (options: CliOptions, resolver: ModuleResolver): Promise<string[]> => {
+    const storybookDirs = await glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+    if (storybookDirs.length === 0) {
+        displayMessage(
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory, or pass the files to fix.',
+            { title: '❌ No Storybook Config Found', borderColor: 'yellow' },
+        );
+        process.exit(1);
+    }
+
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
+        message: 'Which Storybook project would you like to fix?',
+        describe: (dir) => `Fix imports in the stories of ${dir} and the files they import`,
+        exitDescription: 'Exit the import fixer',
+    });
+
+    if (selectedProject === 'exit') {
+        process.exit(0);
+    }
+
+    const { storyFiles, previewFiles } = await findProjectEntryFiles(selectedProject);
+    const graph = await buildDependencyGraph([...storyFiles, ...previewFiles], resolver);
+
+    return [...graph.values()]
+        .filter(
+            (node) =>
+                !node.file.split(path.sep).includes('node_modules') &&
+                node.dynamicImports.some((imp) => FIXABLE_KINDS.includes(imp.kind)),
+        )
+        .map((node) => node.file)
+        .sort();
+};
+
+/**
+ * Returns why the codemod can't rewrite a file, if it can't
+ */
+const getUnfixableReason = (file: string): string | undefined => {
+    if (path.extname(file).toLowerCase() === '.mdx') {
+        return 'MDX docs are not rewritten, only JavaScript and TypeScript files';
+    }
+    return isSourceFile(file) ? undefined : "it isn't a JavaScript or TypeScript file, so it has no imports to rewrite";
+};
+
+/**
+ * Lists what the codemod would rewrite in a file, and what it skipped and why
+ */
+const displayPlan = (plan: StaticImportPlan) => {
+    const sections: string[] = [];
+
+    if (plan.rewrites.length > 0) {
+        sections.push(
+            `✅ ${chalk.green(plan.rewrites.length)} ${
+                plan.rewrites.length === 1 ? 'import' : 'imports'
+            } can be made static:\n\n${plan.rewrites
+                .map(
+                    (rewrite) =>
+                        `${chalk.dim(`${rewrite.line}:${rewrite.column}`)} ${chalk.red(
+                            rewrite.before,
+                        )}\n    ↳ ${chalk.green(rewrite.after)}`,
+                )
+                .join('\n')}`,
+        );
+    }
+
+    if (plan.skipped.length > 0) {
+        sections.push(
+            `⚠️  ${chalk.yellow(plan.skipped.length)} skipped, fix ${
+                plan.skipped.length === 1 ? 'it' : 'them'
+            } by hand:\n\n${plan.skipped
+                .map(
+                    (skip) =>
+                        `${chalk.dim(`${skip.line}:${skip.column}`)} ${chalk.cyan(skip.source)}\n    ↳ ${skip.reason}`,
+                )
+                .join('\n')}`,
+        );
+    }
+
+    displayMessage(sections.join('\n\n'), {
+        title: `📄 ${plan.file}`,
+        borderColor: plan.skipped.length > 0 ? 'yellow' : 'green',
+    });
+};
+
+/**
+ * Fix mode for rewriting `require()` calls and dynamic imports as static imports, which TurboSnap
+ * can trace. Each file's changes are shown as a diff and written once confirmed.
+ */
+export const fixMode = async (options: CliOptions) => {
+    displayMessage('Rewriting require() calls and dynamic imports as static imports', {
+        title: '🔧 Fix Mode',
+        borderColor: 'magenta',
+    });
+
+    const resolver = await createIndexedModuleResolver();
+    const files =
+        options.files.length > 0
+            ? options.files.map((file) => {
+                  if (!fs.existsSync(file)) {
+                      throw new CliOptionsError(`File not found: ${file}`);
+                  }
+                  return path.resolve(file);
+              })
+            : await findFixableFiles(options, resolver);
+
+    const skippedFiles = files.flatMap((file) => {
+        const reason = getUnfixableReason(file);
+        return reason ? [{ file: path.relative(process.cwd(), file), reason }] : [];
+    });
+    if (skippedFiles.length > 0) {
+        displayMessage(skippedFiles.map(({ file, reason }) => `${chalk.cyan(file)}\n    ↳ ${reason}`).join('\n'), {
+            title: '⚠️  Skipped Files',
+            borderColor: 'yellow',
+        });
+    }
+
+    const plans = files
+        .filter((file) => !getUnfixableReason(file))
+        .map((file) => planStaticImports(file, undefined, resolver))
+        .filter((plan) => plan.rewrites.length > 0 || plan.skipped.length > 0);
+
+    if (plans.length === 0) {
+        displayMessage('No require() calls or dynamic imports found. Every import is already static.', {
+            title: '✅ Nothing to Fix',
+            borderColor: 'green',
+        });
+        process.exit(0);
+    }
+
+    let rewritten = 0;
+    const written: string[] = [];
+    for (const plan of plans) {
+        displayPlan(plan);
+        if (plan.rewrites.length === 0) {
+            continue;
+        }
+
+        const change = { path: path.resolve(plan.file), before: plan.before, after: plan.after };
+        console.log(`${formatDiff(change)}\n`);
+        if (options.dryRun || !(await confirm(options, `Apply these changes to ${plan.file}?`))) {
+            continue;
+        }
+
+        if (fs.readFileSync(change.path, 'utf-8') !== change.before) {
+            throw new StaleChangeError(plan.file);
+        }
+        fs.writeFileSync(change.path, change.after);
+        rewritten += plan.rewrites.length;
+        written.push(plan.file);
+    }
+
+    const skipped = plans.reduce((sum, plan) => sum + plan.skipped.length, 0);
+    const skippedNote =
+        skipped > 0 ? `\n\n⚠️  ${chalk.yellow(skipped)} couldn't be made static safely and were left as they are.` : '';
+    if (options.dryRun) {
+        displayMessage(`Dry run complete. No files were written.${skippedNote}`, {
+            title: '🔎 Dry Run',
+            borderColor: 'blue',
+        });
+    } else {
+        displayMessage(
+            `Rewrote ${chalk.green(rewritten)} ${rewritten === 1 ? 'import' : 'imports'} in ${chalk.green(
+                written.length,
+            )} ${written.length === 1 ? 'file' : 'files'}.${skippedNote}`,
+            { title: '🔧 Fix Summary', borderColor: rewritten > 0 ? 'green' : 'blue' },
+        );
+    }
+    process.exit(0);
+};
@@ -0,0 +1,35 @@
+import { execFileSync } from 'child_process';
+import path from 'path';
+import { GitCommandError } from './errors';
+
+/**
+ * Runs a git command in the working directory and returns its output
+ */
+const runGit = (args: string[]): string => {
+    try {
+        return execFileSync('git', args, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+    } catch (error: unknown) {
+        // execFileSync attaches the command's stderr to the error it throws
+        const stderr =
+            error instanceof Error && 'stderr' in error && error.stderr ? String(error.stderr).trim() : undefined;
+        throw new GitCommandError(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+};
+
+/**
+ * Returns the absolute path of the repository containing the working directory
+ */
+export const getRepositoryRoot = (): string => runGit(['rev-parse', '--show-toplevel']).trim();
+
+/**
+ * Lists the files that differ between a ref and the working tree, including uncommitted changes
+ * to tracked files and new files that aren't tracked or ignored yet. Paths are absolute.
+ */
+export const getChangedFiles = (base: string): string[] => {
+    const root = getRepositoryRoot();
+    const changed = runGit(['diff', '--name-only', base, '--']);
+    // `:/` lists untracked files from the repository root rather than the working directory
+    const untracked = runGit(['ls-files', '--others', '--exclude-standard', '--full-name', '--', ':/']);
+    const files = new Set(`${changed}\n${untracked}`.split('\n').filter(Boolean));
+    return [...files].map((file) => path.join(root, file));
+};
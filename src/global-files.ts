@@ -0,0 +1,222 @@
+import { glob } from 'fast-glob';
+import fs from 'fs';
+import path from 'path';
+import type { ConfigFile } from 'storybook/internal/csf-tools';
+import { loadStorybookModules } from './storybook-resolver';
+import { GlobalFileKind, GlobalFiles, GlobalHtmlAnalysis, HtmlAssetReference, MainStaticDir } from './types';
+import { getLiteralValue, walkAst } from './import-parser';
+import { evaluatePath, readStaticDirs } from './main-mode';
+import { resolveFile } from './module-resolver';
+import { getRepositoryRoot } from './git';
+import { GitCommandError } from './errors';
+
+const SCRIPT_EXTENSIONS = '{js,jsx,mjs,cjs,ts,tsx,mts,cts}';
+const FONT_EXTENSIONS = ['.woff', '.woff2', '.ttf', '.otf', '.eot'];
+
+const isFont = (url: string) => FONT_EXTENSIONS.includes(path.extname(url.split(/[?#]/)[0]).toLowerCase());
+
+const isRemote = (url: string) => /^(https?:)?\/\//i.test(url);
+
+/**
+ * Reads a Storybook's main config, or returns undefined when it has none or it can't be parsed
+ */
+const readMainConfig = async (configDir: string): Promise<ConfigFile | undefined> => {
+    const { findConfigFile, readConfig } = loadStorybookModules();
+    const mainConfigPath = findConfigFile('main', configDir);
+    try {
+        return mainConfigPath ? await readConfig(mainConfigPath) : undefined;
+    } catch (error) {
+        return undefined;
+    }
+};
+
+/**
+ * Finds the files in the repository that `previewAnnotations` adds to every story, from string
+ * paths, `require.resolve()` calls and `path.resolve(__dirname, ...)` calls. Entries that name a
+ * package are left out, since they come from `node_modules`.
+ */
+const findPreviewAnnotations = (mainConfig: ConfigFile | undefined, configDir: string): string[] => {
+    const node = mainConfig?.getFieldNode(['previewAnnotations']);
+    if (!node) {
+        return [];
+    }
+
+    // previewAnnotations can be an array, or a function that returns one
+    const files = new Set<string>();
+    walkAst(node, (child) => {
+        if (child.type !== 'ArrayExpression') {
+            return;
+        }
+        child.elements.forEach((element) => {
+            const literal = getLiteralValue(element);
+            if (literal !== undefined && !literal.startsWith('.') && !path.isAbsolute(literal)) {
+                return;
+            }
+            const candidate = evaluatePath(element, configDir);
+            const file = candidate && resolveFile(candidate);
+            if (file) {
+                files.add(path.resolve(file));
+            }
+        });
+    });
+    return [...files].sort();
+};
+
+/**
+ * Finds the files in a Storybook config directory that affect every story: `preview.*`,
+ * `manager.*`, `preview-head.html` and `preview-body.html`, and the files `previewAnnotations`
+ * adds in main config
+ */
+export const findGlobalFiles = async (configDir: string): Promise<GlobalFiles> => {
+    const find = async (pattern: string) =>
+        (await glob(pattern, { cwd: configDir, absolute: true })).map((file) => path.resolve(file)).sort();
+
+    const [previewFiles, managerFiles, htmlFiles] = await Promise.all([
+        find(`preview.${SCRIPT_EXTENSIONS}`),
+        find(`manager.${SCRIPT_EXTENSIONS}`),
+        find('preview-{head,body}.html'),
+    ]);
+    const previewAnnotations = findPreviewAnnotations(await readMainConfig(configDir), configDir).filter(
+        (file) => !previewFiles.includes(file),
+    );
+
+    return { previewFiles, managerFiles, previewAnnotations, htmlFiles };
+};
+
+/**
+ * Lists the script files among a Storybook's global files, with the kind of each
+ */
+export const listGlobalScripts = (files: GlobalFiles): { file: string; kind: GlobalFileKind }[] => [
+    ...files.previewFiles.map((file) => ({ file, kind: 'preview' as const })),
+    ...files.managerFiles.map((file) => ({ file, kind: 'manager' as const })),
+    ...files.previewAnnotations.map((file) => ({ file, kind: 'preview-annotation' as const })),
+];
+
+const getAttribute = (tag: string, name: string): string | undefined => {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? match[1] ?? match[2] ?? match[3] : undefined;
+};
+
+/**
+ * Finds the URLs an HTML snippet loads: `<link href>`, `<script src>` and `<img src>` tags, and
+ * `url()` and `@import` in inline styles
+ */
+const findHtmlReferences = (html: string): { kind: HtmlAssetReference['kind']; url: string; index: number }[] => {
+    const references: { kind: HtmlAssetReference['kind']; url: string; index: number }[] = [];
+
+    for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+        const url = getAttribute(match[0], 'href');
+        const rel = getAttribute(match[0], 'rel')?.toLowerCase() ?? '';
+        const as = getAttribute(match[0], 'as')?.toLowerCase();
+        // preconnect and dns-prefetch open connections without loading anything
+        if (url && !['preconnect', 'dns-prefetch'].includes(rel)) {
+            const kind =
+                rel.includes('stylesheet') || as === 'style'
+                    ? 'stylesheet'
+                    : as === 'font' || isFont(url)
+                    ? 'font'
+                    : as === 'script' || rel === 'modulepreload'
+                    ? 'script'
+                    : 'asset';
+            references.push({ kind, url, index: match.index! });
+        }
+    }
+    for (const match of html.matchAll(/<(script|img)\b[^>]*>/gi)) {
+        const url = getAttribute(match[0], 'src');
+        if (url) {
+            references.push({
+                kind: match[1].toLowerCase() === 'script' ? 'script' : 'asset',
+                url,
+                index: match.index!,
+            });
+        }
+    }
+    for (const match of html.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi)) {
+        references.push({ kind: isFont(match[2]) ? 'font' : 'asset', url: match[2].trim(), index: match.index! });
+    }
+    for (const match of html.matchAll(/@import\s+(['"])([^'"]+)\1/gi)) {
+        references.push({ kind: 'stylesheet', url: match[2], index: match.index! });
+    }
+
+    return references
+        .filter((reference) => !/^(data:|#|javascript:)/i.test(reference.url))
+        .sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Finds the file a URL in the preview HTML is served from. The HTML is injected into the preview
+ * iframe at the root of the build, so URLs are looked up in each static directory, under the
+ * path it's mounted at with `to`.
+ */
+const resolveStaticFile = (url: string, staticDirs: MainStaticDir[]): string | undefined => {
+    const urlPath = url.split(/[?#]/)[0].replace(/^\.?\//, '');
+    for (const dir of staticDirs) {
+        const mount = (dir.to ?? '').replace(/^\/+|\/+$/g, '');
+        if (!dir.directory || (mount && !urlPath.startsWith(`${mount}/`))) {
+            continue;
+        }
+        const candidate = path.resolve(dir.directory, mount ? urlPath.slice(mount.length + 1) : urlPath);
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+            return path.relative(process.cwd(), candidate);
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Returns the directory Chromatic matches `externals` against: the repository root, or the
+ * working directory outside a git repository
+ */
+const findExternalsRoot = (): string => {
+    try {
+        return getRepositoryRoot();
+    } catch (error) {
+        if (error instanceof GitCommandError) {
+            return process.cwd();
+        }
+        throw error;
+    }
+};
+
+/**
+ * Lists the stylesheets, scripts, fonts and other assets `preview-head.html` and
+ * `preview-body.html` load. Local files are found in the static directories they're served
+ * from and suggested as `externals`, since they reach the build without going through the
+ * bundler and TurboSnap can't tell when they change. Chromatic matches `externals` against paths
+ * relative to the repository root, so the suggestions are too.
+ */
+export const analyzeGlobalHtmlFiles = async (configDir: string, htmlFiles: string[]): Promise<GlobalHtmlAnalysis[]> => {
+    if (htmlFiles.length === 0) {
+        return [];
+    }
+
+    const mainConfig = await readMainConfig(configDir);
+    const staticDirs = mainConfig
+        ? await readStaticDirs(mainConfig, configDir, path.dirname(path.resolve(configDir)))
+        : [];
+    const externalsRoot = findExternalsRoot();
+    const toExternal = (file: string) => path.relative(externalsRoot, path.resolve(file)).split(path.sep).join('/');
+
+    return htmlFiles.map((htmlFile) => {
+        const html = fs.readFileSync(htmlFile, 'utf-8');
+        const references: HtmlAssetReference[] = findHtmlReferences(html).map(({ kind, url, index }) => {
+            const remote = isRemote(url);
+            const file = remote ? undefined : resolveStaticFile(url, staticDirs);
+            return {
+                kind,
+                url,
+                line: html.slice(0, index).split('\n').length,
+                remote,
+                ...(file && { file }),
+            };
+        });
+
+        return {
+            file: path.relative(process.cwd(), htmlFile),
+            references,
+            suggestedExternals: [
+                ...new Set(references.flatMap((reference) => (reference.file ? [toExternal(reference.file)] : []))),
+            ].sort(),
+        };
+    });
+};
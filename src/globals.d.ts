@@ -0,0 +1,4 @@
+/**
+ * The package version, replaced at build time
+ */
+declare const __VERSION__: string;
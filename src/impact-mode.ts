@@ -0,0 +1,203 @@
+import { glob } from 'fast-glob';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import { displayMessage, printJson } from './utils';
+import { CliOptions, DependencyGraph, FileImpact, ImpactReport } from './types';
+import { CliOptionsError } from './errors';
+import { createIndexedModuleResolver } from './file-index';
+import { buildDependencyGraph, buildReverseGraph, findDependents } from './dependency-graph';
+import { selectStorybookProject } from './project-detection';
+import { findStoryFiles } from './story-discovery';
+import { findGlobalFiles, listGlobalScripts } from './global-files';
+
+/**
+ * Number of affected story files listed per changed file in text output
+ */
+const MAX_LISTED_STORIES = 20;
+
+const toRelative = (file: string) => path.relative(process.cwd(), file);
+
+/**
+ * Finds the story files and preview files of a project, as absolute paths. Preview files include
+ * manager files and preview annotations, since they're loaded for every story too.
+ */
+export const findProjectEntryFiles = async (projectDir: string) => {
+    const [storyFiles, globalFiles] = await Promise.all([findStoryFiles(projectDir), findGlobalFiles(projectDir)]);
+
+    return {
+        storyFiles,
+        previewFiles: listGlobalScripts(globalFiles).map(({ file }) => file),
+    };
+};
+
+/**
+ * Works out which story files each changed file would retest, by walking the dependency graph
+ * backwards from the changed file. Changes to the Storybook config directory, or to anything a
+ * preview file imports, retest every story.
+ */
+export const buildImpactReport = (
+    project: string,
+    storyFiles: string[],
+    previewFiles: string[],
+    graph: DependencyGraph,
+    changedFiles: string[],
+): ImpactReport => {
+    const reverseGraph = buildReverseGraph(graph);
+    const storySet = new Set(storyFiles);
+    const configDir = path.resolve(project);
+
+    const files = changedFiles.map((changedFile): FileImpact => {
+        const file = path.resolve(changedFile);
+        const dependents = findDependents(reverseGraph, file);
+        const impact: FileImpact = {
+            file: toRelative(file),
+            exists: fs.existsSync(file),
+            stories: [
+                ...(storySet.has(file) ? [{ file: toRelative(file), chain: [toRelative(file)] }] : []),
+                ...[...dependents]
+                    .filter(([dependent]) => storySet.has(dependent))
+                    .map(([dependent, chain]) => ({ file: toRelative(dependent), chain: chain.map(toRelative) })),
+            ].sort((a, b) => a.file.localeCompare(b.file)),
+        };
+
+        const previewFile = previewFiles.find((preview) => dependents.has(preview));
+        if (!path.relative(configDir, file).startsWith('..')) {
+            impact.fullRebuildReason = `it's in the Storybook config directory (${project})`;
+            impact.fullRebuildChain = [toRelative(file)];
+        } else if (previewFile) {
+            impact.fullRebuildReason = `it's imported by ${toRelative(previewFile)}`;
+            impact.fullRebuildChain = dependents.get(previewFile)!.map(toRelative);
+        }
+
+        return impact;
+    });
+
+    const triggersFullRebuild = files.some((file) => file.fullRebuildReason);
+    return {
+        mode: 'impact',
+        project,
+        totalStoryFiles: storyFiles.length,
+        triggersFullRebuild,
+        affectedStoryFiles: triggersFullRebuild
+            ? storyFiles.map(toRelative).sort()
+            : [...new Set(files.flatMap((file) => file.stories.map((story) => story.file)))].sort(),
+        files,
+    };
+};
+
+const formatChain = (chain: string[]) => chain.map((file) => chalk.cyan(file)).join(chalk.dim(' → '));
+
+/**
+ * Prints what each changed file would retest
+ */
+const displayImpact = (report: ImpactReport) => {
+    report.files.forEach((file) => {
+        const sections: string[] = [];
+
+        if (!file.exists) {
+            sections.push(
+                chalk.yellow("🚨 This file doesn't exist. Only stories that still import it are listed below."),
+            );
+        }
+
+        if (file.fullRebuildReason) {
+            sections.push(
+                `🚨 Changing this file triggers a full rebuild, because ${file.fullRebuildReason}.\n\n${formatChain(
+                    file.fullRebuildChain!,
+                )}`,
+            );
+        }
+
+        if (file.stories.length > 0) {
+            const listed = file.stories.slice(0, MAX_LISTED_STORIES);
+            sections.push(
+                `Retests ${chalk.yellow(file.stories.length)} story ${
+                    file.stories.length === 1 ? 'file' : 'files'
+                }:\n\n${listed.map((story) => `- ${formatChain(story.chain)}`).join('\n')}${
+                    file.stories.length > listed.length
+                        ? `\n...and ${file.stories.length - listed.length} more (use --format json for the full list)`
+                        : ''
+                }`,
+            );
+        } else if (!file.fullRebuildReason) {
+            sections.push("✅ No story imports this file, so changing it won't retest any stories.");
+        }
+
+        displayMessage(sections.join('\n\n'), {
+            title: `📄 ${file.file}`,
+            borderColor: file.fullRebuildReason ? 'red' : file.stories.length > 0 ? 'yellow' : 'green',
+        });
+    });
+
+    if (report.triggersFullRebuild) {
+        displayMessage(
+            `🚨 Full rebuild: all ${chalk.red(report.totalStoryFiles)} ${
+                report.totalStoryFiles === 1 ? 'story file' : 'story files'
+            } in ${chalk.cyan(report.project)} would be retested.`,
+            { title: '🎯 Impact', borderColor: 'red' },
+        );
+    } else {
+        displayMessage(
+            `${chalk.yellow(report.affectedStoryFiles.length)} of ${chalk.cyan(
+                report.totalStoryFiles,
+            )} story files in ${chalk.cyan(report.project)} would be retested.`,
+            { title: '🎯 Impact', borderColor: report.affectedStoryFiles.length > 0 ? 'yellow' : 'green' },
+        );
+    }
+};
+
+/**
+ * Impact mode for listing the stories a change to one or more files would retest
+ */
+export const impactMode = async (options: CliOptions) => {
+    const isJson = options.format === 'json';
+
+    if (options.files.length === 0) {
+        throw new CliOptionsError('Pass the files to check, e.g. `impact src/utils/format.ts`.');
+    }
+
+    if (!isJson) {
+        displayMessage('Finding the stories that changes to these files would retest', {
+            title: '🎯 Impact Mode',
+            borderColor: 'magenta',
+        });
+    }
+
+    const storybookDirs = await glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+    if (storybookDirs.length === 0) {
+        const message =
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.';
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title: '❌ No Storybook Config Found', borderColor: 'yellow' });
+        }
+        process.exit(1);
+    }
+
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
+        message: 'Which Storybook project would you like to check?',
+        describe: (dir) => `Check the impact on stories in ${dir}`,
+        exitDescription: 'Exit the impact checker',
+    });
+
+    if (selectedProject === 'exit') {
+        process.exit(0);
+    }
+
+    const { storyFiles, previewFiles } = await findProjectEntryFiles(selectedProject);
+    const graph = await buildDependencyGraph([...storyFiles, ...previewFiles], await createIndexedModuleResolver());
+    const report = buildImpactReport(selectedProject, storyFiles, previewFiles, graph, options.files);
+
+    if (isJson) {
+        printJson(report);
+    } else {
+        displayImpact(report);
+    }
+    process.exitCode = 0;
+};
@@ -0,0 +1,297 @@
+import fs from 'fs';
+import path from 'path';
+import type { types as t } from 'storybook/internal/babel';
+import { getLiteralValue, getNodeSource, parseSource, walkAst } from './import-parser';
+import { createModuleResolver, isSourceFile, ModuleResolver } from './module-resolver';
+import { SkippedImportRewrite, StaticImportPlan, StaticImportRewrite } from './types';
+
+/**
+ * Nodes whose contents run later than the top level of the module, or only some of the time
+ */
+const DEFERRED_NODE_TYPES = new Set([
+    'FunctionDeclaration',
+    'FunctionExpression',
+    'ArrowFunctionExpression',
+    'ObjectMethod',
+    'ClassMethod',
+    'ClassPrivateMethod',
+    'IfStatement',
+    'ConditionalExpression',
+    'LogicalExpression',
+    'SwitchStatement',
+    'TryStatement',
+    'ForStatement',
+    'ForInStatement',
+    'ForOfStatement',
+    'WhileStatement',
+    'DoWhileStatement',
+]);
+
+/**
+ * A `require()` or `import()` call, with the path argument it loads
+ */
+interface LoaderCall {
+    kind: 'require' | 'import';
+    node: t.ImportExpression | t.CallExpression;
+    argument: t.Node;
+}
+
+/**
+ * Returns the loader call an expression makes, if it's `require(...)` or `import(...)` with an argument
+ */
+const getLoaderCall = (node: t.Node | null | undefined): LoaderCall | undefined => {
+    if (node?.type === 'ImportExpression') {
+        return { kind: 'import', node, argument: node.source };
+    }
+    if (node?.type !== 'CallExpression' || node.arguments.length === 0) {
+        return undefined;
+    }
+    if (node.callee.type === 'Import') {
+        return { kind: 'import', node, argument: node.arguments[0] };
+    }
+    if (node.callee.type === 'Identifier' && node.callee.name === 'require') {
+        return { kind: 'require', node, argument: node.arguments[0] };
+    }
+    return undefined;
+};
+
+/**
+ * Matches `require('./x')`, `await import('./x')`, and either followed by a property read like
+ * `.default`. Dynamic imports are only matched when awaited, since a static import can't stand in
+ * for the promise.
+ */
+const matchLoadedModule = (
+    expression: t.Node | null | undefined,
+): { loader: LoaderCall; property?: string } | undefined => {
+    let node = expression;
+    let property: string | undefined;
+    if (node?.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+        property = node.property.name;
+        node = node.object;
+    }
+
+    const awaited = node?.type === 'AwaitExpression';
+    const loader = getLoaderCall(node?.type === 'AwaitExpression' ? node.argument : node);
+    if (!loader || (loader.kind === 'import') !== awaited) {
+        return undefined;
+    }
+    return { loader, property };
+};
+
+/**
+ * Works out the import clause for a top-level statement that loads a module, like `* as X` for
+ * `const X = require('./x')`, or `{ a, b as c }` for `const { a, b: c } = await import('./x')`.
+ * Returns an empty string for side-effect loads, and undefined for statements a static import
+ * can't replace.
+ */
+const getImportClause = (statement: t.Statement): { loader: LoaderCall; clause: string } | undefined => {
+    if (statement.type === 'ExpressionStatement') {
+        const match = matchLoadedModule(statement.expression);
+        return match && !match.property ? { loader: match.loader, clause: '' } : undefined;
+    }
+
+    // `let` and `var` bindings can be reassigned, which imports can't
+    if (statement.type !== 'VariableDeclaration' || statement.kind !== 'const' || statement.declarations.length !== 1) {
+        return undefined;
+    }
+
+    const [{ id, init }] = statement.declarations;
+    const match = matchLoadedModule(init);
+    if (!match || ('typeAnnotation' in id && id.typeAnnotation)) {
+        return undefined;
+    }
+
+    const { loader, property } = match;
+    if (id.type === 'Identifier') {
+        if (property === undefined) {
+            // Like `import()`, `require` returns the namespace of an ES module target, not its default export
+            return { loader, clause: `* as ${id.name}` };
+        }
+        if (property === 'default') {
+            return { loader, clause: id.name };
+        }
+        return { loader, clause: property === id.name ? `{ ${id.name} }` : `{ ${property} as ${id.name} }` };
+    }
+
+    // Only `{ a, b: c }` patterns map onto import specifiers; defaults, rest and nesting don't
+    const getSpecifier = (prop: t.ObjectPattern['properties'][number]): string | undefined => {
+        if (prop.type !== 'ObjectProperty' || prop.computed || prop.value.type !== 'Identifier') {
+            return undefined;
+        }
+        const imported =
+            prop.key.type === 'StringLiteral'
+                ? `'${prop.key.value}'`
+                : prop.key.type === 'Identifier'
+                ? prop.key.name
+                : undefined;
+        if (imported === undefined) {
+            return undefined;
+        }
+        return imported === prop.value.name ? imported : `${imported} as ${prop.value.name}`;
+    };
+
+    if (id.type === 'ObjectPattern' && property === undefined) {
+        const specifiers = id.properties.map(getSpecifier);
+        if (specifiers.every((specifier): specifier is string => specifier !== undefined)) {
+            return { loader, clause: `{ ${specifiers.join(', ')} }` };
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Returns true when the file assigns `module.exports` or `exports.*`, so it's CommonJS
+ */
+const isCommonJs = (program: t.Program): boolean => {
+    let found = false;
+    walkAst(program, (node) => {
+        if (node.type !== 'AssignmentExpression' || node.left.type !== 'MemberExpression') {
+            return;
+        }
+        const target = node.left.object.type === 'MemberExpression' ? node.left.object : node.left;
+        const isModuleExports =
+            target.object.type === 'Identifier' &&
+            target.object.name === 'module' &&
+            target.property.type === 'Identifier' &&
+            target.property.name === 'exports';
+        const isExports = target.object.type === 'Identifier' && target.object.name === 'exports';
+        if (isModuleExports || isExports) {
+            found = true;
+        }
+    });
+    return found;
+};
+
+/**
+ * Works out why a `require()` that binds a name can't become an import of its target, if it can't.
+ * `require` returns `module.exports` as it is, so `X()` or `X.default` only keep working after the
+ * rewrite when the target is an ES module.
+ */
+const getRequireTargetProblem = (source: string, filePath: string, resolver: ModuleResolver): string | undefined => {
+    const resolved = resolver.resolve(source, filePath);
+    if (resolved.type === 'external' || resolved.type === 'builtin') {
+        return "it loads a package, which may be CommonJS, so an import wouldn't get what require returns";
+    }
+    if (resolved.type === 'unresolved') {
+        return "the path can't be resolved, so there's no telling whether the target is an ES module";
+    }
+    if (!isSourceFile(resolved.path)) {
+        return "the target isn't a JavaScript or TypeScript module, so an import may not get what require returns";
+    }
+
+    let target: ReturnType<typeof parseSource> | undefined;
+    try {
+        target = parseSource(fs.readFileSync(resolved.path, 'utf-8'), resolved.path);
+    } catch (error) {
+        target = undefined;
+    }
+    if (!target || (target.errors?.length ?? 0) > 0) {
+        return "the target can't be parsed, so there's no telling whether it's an ES module";
+    }
+    if (isCommonJs(target.program)) {
+        return "the target assigns module.exports, so it's CommonJS and an import wouldn't get what require returns";
+    }
+    return undefined;
+};
+
+/**
+ * Plans the static imports a file's `require()` calls and dynamic imports can be rewritten to.
+ * Only loads that always run when the module is evaluated are rewritten: top-level `const`
+ * declarations and expression statements with a string literal path. Everything else, like loads
+ * inside functions or conditions, with a path built at runtime, or binding a `require()` of a
+ * module that isn't known to be an ES module, is skipped with the reason. Only the rewritten
+ * statements change, so the rest of the file keeps its formatting.
+ */
+export const planStaticImports = (
+    filePath: string,
+    code: string = fs.readFileSync(filePath, 'utf-8'),
+    resolver: ModuleResolver = createModuleResolver(),
+): StaticImportPlan => {
+    const ast = parseSource(code, filePath);
+    const { program } = ast;
+    const commonJs = isCommonJs(program);
+    const commonJsExtension = /\.c[jt]s$/i.test(filePath);
+    const hasSyntaxErrors = (ast.errors?.length ?? 0) > 0;
+
+    const deferredRanges: { start: number; end: number }[] = [];
+    const loaders: LoaderCall[] = [];
+    walkAst(program, (node) => {
+        if (DEFERRED_NODE_TYPES.has(node.type)) {
+            deferredRanges.push({ start: node.start ?? 0, end: node.end ?? 0 });
+        }
+        const loader = getLoaderCall(node);
+        if (loader) {
+            loaders.push(loader);
+        }
+    });
+
+    // Top-level statements that can be replaced by an import, keyed by the loader call they make
+    const replaceable = new Map<t.Node, { statement: t.Statement; clause: string }>();
+    program.body.forEach((statement) => {
+        const match = getImportClause(statement);
+        if (match) {
+            replaceable.set(match.loader.node, { statement, clause: match.clause });
+        }
+    });
+
+    const rewrites: (StaticImportRewrite & { start: number; end: number })[] = [];
+    const skipped: SkippedImportRewrite[] = [];
+    loaders.forEach((loader) => {
+        const literal = getLiteralValue(loader.argument);
+        const { start, end, loc } = loader.node;
+        const location = { line: loc!.start.line, column: loc!.start.column + 1 };
+        const source = literal ?? getNodeSource(code, loader.argument);
+        const skip = (reason: string) => skipped.push({ ...location, source, reason });
+
+        const replacement = replaceable.get(loader.node);
+        if (hasSyntaxErrors) {
+            skip('the file has syntax errors');
+        } else if (commonJsExtension) {
+            skip(`${path.extname(filePath)} files are always CommonJS, so they can't use static imports`);
+        } else if (commonJs) {
+            skip("the file assigns module.exports, so it's CommonJS and can't use static imports");
+        } else if (literal === undefined) {
+            skip("the path isn't a string literal, so it's only known at runtime");
+        } else if (deferredRanges.some((range) => range.start <= start! && end! <= range.end)) {
+            skip("it's inside a function, condition, loop or try block, so the module only loads when that code runs");
+        } else if (!replacement) {
+            skip('only top-level `const` declarations and bare statements can become static imports');
+        } else {
+            const { statement, clause } = replacement;
+            const targetProblem =
+                loader.kind === 'require' && clause ? getRequireTargetProblem(literal, filePath, resolver) : undefined;
+            if (targetProblem) {
+                skip(targetProblem);
+                return;
+            }
+
+            const quoted =
+                loader.argument.type === 'StringLiteral'
+                    ? getNodeSource(code, loader.argument)
+                    : `'${literal.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+            const before = getNodeSource(code, statement);
+            const semicolon = before.endsWith(';') ? ';' : '';
+            rewrites.push({
+                ...location,
+                start: statement.start!,
+                end: statement.end!,
+                before,
+                after: clause ? `import ${clause} from ${quoted}${semicolon}` : `import ${quoted}${semicolon}`,
+            });
+        }
+    });
+
+    // Splice from the end so earlier offsets stay valid
+    const after = [...rewrites]
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, rewrite) => result.slice(0, rewrite.start) + rewrite.after + result.slice(rewrite.end), code);
+
+    return {
+        file: path.relative(process.cwd(), filePath),
+        before: code,
+        after,
+        rewrites: rewrites.map(({ start, end, ...rewrite }) => rewrite),
+        skipped,
+    };
+};
@@ -0,0 +1,526 @@
+import { glob } from 'fast-glob';
+import fs from 'fs';
+import path from 'path';
+import type { parser, types as t } from 'storybook/internal/babel';
+import { loadStorybookModules } from './storybook-resolver';
+import { FileImportAnalysis, ImportKind, ImportReference } from './types';
+
+/**
+ * Import kinds that pull a module into the bundle when the file loads
+ */
+const STATIC_KINDS: ImportKind[] = ['static', 'side-effect', 're-export'];
+
+/**
+ * Import kinds that load a module at runtime, which TurboSnap may not be able to trace
+ */
+const DYNAMIC_KINDS: ImportKind[] = [
+    'dynamic-literal',
+    'dynamic-non-literal',
+    'require',
+    'require-context',
+    'import-meta-glob',
+];
+
+/**
+ * AST properties that never contain imports
+ */
+const SKIPPED_KEYS = new Set([
+    'loc',
+    'start',
+    'end',
+    'extra',
+    'comments',
+    'leadingComments',
+    'trailingComments',
+    'innerComments',
+]);
+
+/**
+ * Picks the Babel syntax plugins for a file based on its extension
+ */
+const getParserPlugins = (filePath: string): string[] => {
+    const extension = path.extname(filePath).toLowerCase();
+    if (['.ts', '.mts', '.cts'].includes(extension)) {
+        return ['typescript'];
+    }
+    if (extension === '.tsx') {
+        return ['typescript', 'jsx'];
+    }
+    return ['jsx'];
+};
+
+/**
+ * Blanks out everything in an MDX file except its ESM blocks: paragraphs starting with `import`
+ * or `export`, outside code fences. Blanked characters become spaces, so positions in the
+ * result match positions in the original file.
+ */
+const getMdxEsm = (code: string): string => {
+    let inFence = false;
+    let inEsm = false;
+    let atBlockStart = true;
+
+    return code
+        .split('\n')
+        .map((line) => {
+            if (!inEsm && /^(```|~~~)/.test(line)) {
+                inFence = !inFence;
+            } else if (!inFence && atBlockStart && /^(import|export)\b/.test(line)) {
+                inEsm = true;
+            } else if (line.trim() === '') {
+                inEsm = false;
+            }
+            atBlockStart = !inFence && line.trim() === '';
+
+            return inEsm ? line : line.replace(/[^\r]/g, ' ');
+        })
+        .join('\n');
+};
+
+/**
+ * Parses a JavaScript or TypeScript file with the project's Storybook copy of Babel. Only the
+ * `import` and `export` blocks of MDX files are parsed.
+ * Syntax errors are recovered from where possible, so partially valid files still yield an AST.
+ */
+export const parseSource = (code: string, filePath: string): parser.ParseResult<t.File> =>
+    loadStorybookModules().babelParser.parse(path.extname(filePath).toLowerCase() === '.mdx' ? getMdxEsm(code) : code, {
+        sourceType: 'module',
+        errorRecovery: true,
+        allowAwaitOutsideFunction: true,
+        allowReturnOutsideFunction: true,
+        allowImportExportEverywhere: true,
+        plugins: getParserPlugins(filePath),
+    });
+
+const isNode = (value: unknown): value is t.Node => typeof (value as t.Node | null)?.type === 'string';
+
+/**
+ * Calls `visit` for every node in an AST, depth first
+ */
+export const walkAst = (node: t.Node, visit: (node: t.Node) => void) => {
+    visit(node);
+    for (const [key, value] of Object.entries(node)) {
+        if (SKIPPED_KEYS.has(key)) continue;
+        const children: unknown[] = Array.isArray(value) ? value : [value];
+        children.forEach((child) => {
+            if (isNode(child)) {
+                walkAst(child, visit);
+            }
+        });
+    }
+};
+
+/**
+ * Returns the source code of a node
+ */
+export const getNodeSource = (code: string, node: t.Node): string => code.slice(node.start ?? 0, node.end ?? 0);
+
+/**
+ * Returns the value of a string literal or a template literal without expressions
+ */
+export const getLiteralValue = (node: t.Node | null | undefined): string | undefined => {
+    if (node?.type === 'StringLiteral') {
+        return node.value;
+    }
+    if (node?.type === 'TemplateLiteral' && node.expressions.length === 0) {
+        return node.quasis[0].value.cooked;
+    }
+    return undefined;
+};
+
+/**
+ * Returns a property name written as an identifier or a string, like `alias` in `{ alias: ... }`
+ * or `config.alias`
+ */
+export const getPropertyName = (node: t.Node): string | undefined =>
+    node.type === 'Identifier' ? node.name : getLiteralValue(node);
+
+/**
+ * Returns the static start of a path expression: the first chunk of a template literal,
+ * or the leftmost string of a `+` concatenation
+ */
+const getStaticPrefix = (node: t.Node): string | undefined => {
+    if (node.type === 'StringLiteral') {
+        return node.value;
+    }
+    if (node.type === 'TemplateLiteral') {
+        return node.quasis[0].value.cooked;
+    }
+    if (node.type === 'BinaryExpression' && node.operator === '+') {
+        return getStaticPrefix(node.left);
+    }
+    return undefined;
+};
+
+/**
+ * Resolves a context module's directory from the importing file, relative to the working
+ * directory. Directories that aren't relative, like aliases, are returned as they are.
+ */
+const resolveContextDirectory = (directory: string, filePath: string): string => {
+    if (!directory.startsWith('.')) {
+        return directory;
+    }
+    return path.relative(process.cwd(), path.resolve(path.dirname(filePath), directory)) || '.';
+};
+
+/**
+ * Returns the directory a bundler turns a non-literal import into a context module for,
+ * based on the directory part of its static prefix. Relative directories are resolved
+ * from the importing file and reported relative to the working directory.
+ */
+const getContextDirectory = (argument: t.Node, filePath: string): string | undefined => {
+    const prefix = getStaticPrefix(argument);
+    if (!prefix || !prefix.includes('/')) {
+        return undefined;
+    }
+
+    return resolveContextDirectory(prefix.slice(0, prefix.lastIndexOf('/')) || '/', filePath);
+};
+
+/**
+ * Returns the directory part of a glob pattern, before the first segment with a glob character
+ */
+const getGlobBase = (pattern: string): string[] => {
+    const segments = pattern.split('/');
+    const globIndex = segments.findIndex((segment) => /[*?[\]{}()]/.test(segment));
+    return segments.slice(0, globIndex === -1 ? segments.length - 1 : globIndex);
+};
+
+/**
+ * Classifies `require.context(directory, recursive, regExp)`, webpack's way of bundling every
+ * matching file in a directory
+ */
+const classifyRequireContext = (
+    node: t.CallExpression,
+    code: string,
+    filePath: string,
+): Omit<ImportReference, 'line' | 'column'> => {
+    const [directoryArgument, recursiveArgument, regExpArgument] = node.arguments;
+    const directory = getLiteralValue(directoryArgument);
+    if (directory === undefined) {
+        const source = directoryArgument ? getNodeSource(code, directoryArgument) : '';
+        return { source, kind: 'require-context', traceability: 'untraceable' };
+    }
+
+    return {
+        source: directory,
+        kind: 'require-context',
+        traceability: 'context',
+        contextDirectory: resolveContextDirectory(directory, filePath),
+        contextFilter: {
+            // Without a literal, assume every file matches, like webpack's default of /^\.\/.*$/
+            ...(regExpArgument?.type === 'RegExpLiteral' && {
+                regExp: `/${regExpArgument.pattern}/${regExpArgument.flags}`,
+            }),
+            recursive: recursiveArgument?.type === 'BooleanLiteral' ? recursiveArgument.value : true,
+        },
+    };
+};
+
+/**
+ * Classifies `import.meta.glob(patterns)`, Vite's way of bundling every file matching a glob.
+ * The patterns are reported relative to the deepest directory they all start in.
+ */
+const classifyImportMetaGlob = (
+    node: t.CallExpression,
+    code: string,
+    filePath: string,
+): Omit<ImportReference, 'line' | 'column'> => {
+    const [argument] = node.arguments;
+    const elements = argument?.type === 'ArrayExpression' ? argument.elements : [argument];
+    const patterns = elements.map((element) => getLiteralValue(element));
+    if (!argument || patterns.length === 0 || patterns.some((pattern) => pattern === undefined)) {
+        const source = argument ? getNodeSource(code, argument) : '';
+        return { source, kind: 'import-meta-glob', traceability: 'untraceable' };
+    }
+
+    const positivePatterns = (patterns as string[]).filter((pattern) => !pattern.startsWith('!'));
+    const base = positivePatterns.map(getGlobBase).reduce((common, segments) => {
+        const mismatch = common.findIndex((segment, index) => segments[index] !== segment);
+        return mismatch === -1 ? common : common.slice(0, mismatch);
+    });
+    const baseDirectory = base.join('/') || '.';
+
+    return {
+        source: positivePatterns[0],
+        kind: 'import-meta-glob',
+        traceability: 'context',
+        contextDirectory: resolveContextDirectory(baseDirectory, filePath),
+        contextFilter: {
+            patterns: (patterns as string[]).map((pattern) => {
+                const negated = pattern.startsWith('!');
+                const relative = path.posix.relative(baseDirectory, negated ? pattern.slice(1) : pattern);
+                return negated ? `!${relative}` : relative;
+            }),
+        },
+    };
+};
+
+/**
+ * Whether an import is a `require.context` or `import.meta.glob` call with a relative directory,
+ * so the files it bundles can be listed
+ */
+const isRelativeContext = (imp: Pick<ImportReference, 'source' | 'contextDirectory' | 'contextFilter'>) =>
+    Boolean(imp.contextDirectory && imp.contextFilter && /^\.+(\/|$)/.test(imp.source));
+
+/**
+ * Lists the files a `require.context` or `import.meta.glob` call currently bundles, as absolute
+ * paths. Only calls with a relative directory can be matched against the file system.
+ */
+export const listContextFiles = (imp: ImportReference): string[] => {
+    if (!isRelativeContext(imp)) {
+        return [];
+    }
+
+    const cwd = path.resolve(imp.contextDirectory!);
+    const { regExp, recursive = true, patterns } = imp.contextFilter!;
+    if (patterns) {
+        return glob
+            .sync(patterns, { cwd, absolute: true, onlyFiles: true, ignore: ['**/node_modules/**'] })
+            .map((file) => path.resolve(file));
+    }
+
+    const [, pattern, flags] = regExp?.match(/^\/(.*)\/([a-z]*)$/s) ?? [];
+    const filter = pattern !== undefined ? new RegExp(pattern, flags.replace(/[gy]/g, '')) : undefined;
+    return glob
+        .sync(recursive ? '**/*' : '*', { cwd, onlyFiles: true, ignore: ['**/node_modules/**'] })
+        .filter((file) => !filter || filter.test(`./${file}`))
+        .map((file) => path.resolve(cwd, file));
+};
+
+/**
+ * Returns the name of an import or export specifier, which may be a string like `export { x as 'a-b' }`
+ */
+const getSpecifierName = (node: t.Identifier | t.StringLiteral): string =>
+    node.type === 'StringLiteral' ? node.value : node.name;
+
+/**
+ * Whether an import or export specifier only names a type, like `import { type X }`
+ */
+const isTypeOnlySpecifier = (
+    specifier: t.ImportDeclaration['specifiers'][number] | t.ExportNamedDeclaration['specifiers'][number],
+) =>
+    (specifier.type === 'ImportSpecifier' && specifier.importKind === 'type') ||
+    (specifier.type === 'ExportSpecifier' && specifier.exportKind === 'type');
+
+/**
+ * Lists the names a declaration imports or re-exports from its source: `default`, `*` for
+ * namespaces and `export *`, or the name in the source module. Type-only specifiers are left out.
+ */
+const getImportedNames = (node: t.ImportDeclaration | t.ExportNamedDeclaration | t.ExportAllDeclaration): string[] => {
+    if (node.type === 'ExportAllDeclaration') {
+        return ['*'];
+    }
+
+    return node.specifiers
+        .filter((specifier) => !isTypeOnlySpecifier(specifier))
+        .map((specifier) => {
+            switch (specifier.type) {
+                case 'ImportDefaultSpecifier':
+                case 'ExportDefaultSpecifier':
+                    return 'default';
+                case 'ImportNamespaceSpecifier':
+                case 'ExportNamespaceSpecifier':
+                    return '*';
+                case 'ImportSpecifier':
+                    return getSpecifierName(specifier.imported);
+                default:
+                    return getSpecifierName(specifier.local);
+            }
+        });
+};
+
+/**
+ * Share of a module's top-level statements that must be re-exports for it to count as a barrel
+ */
+const BARREL_THRESHOLD = 0.8;
+
+/**
+ * Whether a module is a barrel: a file that mostly re-exports other modules, like an `index.ts`
+ * made of `export * from './Button'` lines. Imports and type declarations don't count either way,
+ * and `export { Button }` counts as a re-export when `Button` is imported.
+ */
+const isBarrelModule = (program: t.Program): boolean => {
+    const importedBindings = new Set(
+        program.body.flatMap((statement) =>
+            statement.type === 'ImportDeclaration' ? statement.specifiers.map((specifier) => specifier.local.name) : [],
+        ),
+    );
+
+    let reExports = 0;
+    let otherStatements = 0;
+    program.body.forEach((statement) => {
+        if ('exportKind' in statement && statement.exportKind === 'type') {
+            return;
+        }
+        switch (statement.type) {
+            case 'ImportDeclaration':
+            case 'EmptyStatement':
+            case 'TSInterfaceDeclaration':
+            case 'TSTypeAliasDeclaration':
+                return;
+            case 'ExportAllDeclaration':
+                reExports++;
+                return;
+            case 'ExportNamedDeclaration': {
+                const reExportsImports =
+                    !statement.declaration &&
+                    statement.specifiers.every(
+                        (specifier) =>
+                            specifier.type === 'ExportSpecifier' && importedBindings.has(specifier.local.name),
+                    );
+                if (statement.source || reExportsImports) {
+                    reExports++;
+                } else if (
+                    !statement.declaration ||
+                    !['TSInterfaceDeclaration', 'TSTypeAliasDeclaration'].includes(statement.declaration.type)
+                ) {
+                    otherStatements++;
+                }
+                return;
+            }
+            default:
+                otherStatements++;
+        }
+    });
+
+    return reExports >= 2 && reExports >= (reExports + otherStatements) * BARREL_THRESHOLD;
+};
+
+/**
+ * Classifies a single AST node as an import, if it is one
+ */
+export const classifyNode = (
+    node: t.Node,
+    code: string,
+    filePath: string,
+): Omit<ImportReference, 'line' | 'column'> | undefined => {
+    switch (node.type) {
+        case 'ImportDeclaration': {
+            const typeOnly =
+                node.importKind === 'type' ||
+                (node.specifiers.length > 0 && node.specifiers.every(isTypeOnlySpecifier));
+            if (typeOnly) {
+                return { source: node.source.value, kind: 'type-only' };
+            }
+            if (node.specifiers.length === 0) {
+                return { source: node.source.value, kind: 'side-effect' };
+            }
+            return { source: node.source.value, kind: 'static', names: getImportedNames(node) };
+        }
+        case 'ExportAllDeclaration':
+        case 'ExportNamedDeclaration': {
+            if (!node.source) {
+                return undefined;
+            }
+            const specifiers = node.type === 'ExportNamedDeclaration' ? node.specifiers : [];
+            const typeOnly =
+                node.exportKind === 'type' || (specifiers.length > 0 && specifiers.every(isTypeOnlySpecifier));
+            return typeOnly
+                ? { source: node.source.value, kind: 'type-only' }
+                : { source: node.source.value, kind: 're-export', names: getImportedNames(node) };
+        }
+        case 'TSImportEqualsDeclaration': {
+            if (node.moduleReference.type !== 'TSExternalModuleReference') {
+                return undefined;
+            }
+            const source = node.moduleReference.expression.value;
+            return node.importKind === 'type'
+                ? { source, kind: 'type-only' }
+                : { source, kind: 'require', traceability: 'traceable' };
+        }
+        case 'ImportExpression':
+        case 'CallExpression': {
+            if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression') {
+                const { object, property } = node.callee;
+                const method = property.type === 'Identifier' ? property.name : undefined;
+                if (object.type === 'Identifier' && object.name === 'require' && method === 'context') {
+                    return classifyRequireContext(node, code, filePath);
+                }
+                if (
+                    object.type === 'MetaProperty' &&
+                    object.meta.name === 'import' &&
+                    (method === 'glob' || method === 'globEager')
+                ) {
+                    return classifyImportMetaGlob(node, code, filePath);
+                }
+            }
+
+            const isImport = node.type === 'ImportExpression' || node.callee.type === 'Import';
+            const isRequire =
+                node.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === 'require';
+            if (!isImport && !isRequire) {
+                return undefined;
+            }
+
+            const argument = node.type === 'ImportExpression' ? node.source : node.arguments[0];
+            if (!argument) {
+                return undefined;
+            }
+
+            const literal = getLiteralValue(argument);
+            if (literal !== undefined) {
+                return { source: literal, kind: isImport ? 'dynamic-literal' : 'require', traceability: 'traceable' };
+            }
+
+            const source = getNodeSource(code, argument);
+            const contextDirectory = getContextDirectory(argument, filePath);
+            return contextDirectory
+                ? { source, kind: 'dynamic-non-literal', traceability: 'context', contextDirectory }
+                : { source, kind: 'dynamic-non-literal', traceability: 'untraceable' };
+        }
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * Parses a file's source, classifying every import in source order
+ */
+const parseModule = (code: string, filePath: string): { imports: ImportReference[]; isBarrel: boolean } => {
+    const { program } = parseSource(code, filePath);
+    const imports: ImportReference[] = [];
+
+    walkAst(program, (node) => {
+        const classified = classifyNode(node, code, filePath);
+        if (classified && isRelativeContext(classified)) {
+            classified.matchedFiles = listContextFiles(classified as ImportReference).length;
+        }
+        if (classified) {
+            imports.push({ ...classified, line: node.loc!.start.line, column: node.loc!.start.column + 1 });
+        }
+    });
+
+    return { imports, isBarrel: isBarrelModule(program) };
+};
+
+/**
+ * Extracts and classifies every import in a file's source, in source order
+ */
+export const extractImports = (code: string, filePath: string): ImportReference[] =>
+    parseModule(code, filePath).imports;
+
+/**
+ * Splits a file's imports into the static and dynamic imports reported by the analysis modes.
+ * Type-only imports are erased at build time, so they are left out.
+ * Files that can't be parsed are reported with a `parseError` and no imports.
+ * Pass `code` when the file has already been read.
+ */
+export const analyzeFileImports = (filePath: string, code?: string): FileImportAnalysis => {
+    let parsed: ReturnType<typeof parseModule>;
+    try {
+        parsed = parseModule(code ?? fs.readFileSync(filePath, 'utf-8'), filePath);
+    } catch (error) {
+        return {
+            staticImports: [],
+            dynamicImports: [],
+            parseError: error instanceof Error ? error.message : String(error),
+        };
+    }
+
+    const { imports, isBarrel } = parsed;
+    return {
+        staticImports: imports.filter((imp) => STATIC_KINDS.includes(imp.kind)),
+        dynamicImports: imports.filter((imp) => DYNAMIC_KINDS.includes(imp.kind)),
+        ...(isBarrel && { isBarrel }),
+    };
+};
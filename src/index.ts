@@ -3,7 +3,7 @@
  * This utility helps users set up and manage Chromatic configuration files,
  * detect static assets, and update package.json scripts.
  */
-import { JsPackageManagerFactory, findConfigFile, readConfig } from './storybook-resolver';
+import { loadStorybookModules } from './storybook-resolver';
 import { glob } from 'fast-glob';
 import { prompt } from 'prompts';
 import boxen from 'boxen';
@@ -11,15 +11,28 @@ import chalk from 'chalk';
 import dedent from 'dedent';
 import fs from 'fs';
 import path from 'path';
-import { ChromaticConfig } from './types';
+import { ChromaticConfig, CliOptions } from './types';
 import { displayMessage } from './utils';
 import { findStaticAssets, promptForStaticAssets } from './static-assets';
-import { createChromaticConfig, updateChromaticConfig, findChromaticConfig } from './config-management';
+import {
+    createChromaticConfig,
+    updateChromaticConfig,
+    findChromaticConfig,
+    mergeExternals,
+} from './config-management';
 import { updatePackageJsonScript } from './package-json';
-import { buildProjectMeta } from './project-detection';
-import { minimatch } from 'minimatch';
+import { buildProjectMeta, selectStorybookProject } from './project-detection';
+import { confirm, isInteractive, parseCliOptions } from './cli-options';
+import { CliOptionsError, TurbosnapHelperError } from './errors';
+import { applyPendingChanges, formatDiff, getPendingChanges, isDryRun, setDryRun, writeJsonFile } from './file-changes';
 import { analyzeMode } from './analyze-mode';
 import { previewMode } from './preview-mode';
+import { checkMode } from './check-mode';
+import { impactMode } from './impact-mode';
+import { predictMode } from './predict-mode';
+import { fixMode } from './fix-mode';
+import { allProjectsMode } from './all-projects-mode';
+import { analyzeMainConfig, mainMode } from './main-mode';
 
 interface ConfigState {
     configPath?: string;
@@ -40,56 +53,69 @@ const handleExit = async (): Promise<void> => {
 };
 
 /**
- * Initialize Chromatic configuration
+ * Shows the changes collected during a dry run as a unified diff and writes them once confirmed.
+ * Without prompts the changes are only shown, never written.
  */
-const initMode = async () => {
-    displayMessage('CLI tool for helping you configure Chromatic Turbosnap for your project', {
-        title: '@chromaui/turbosnap-helper',
-        borderColor: 'magenta',
-    });
-
-    const manager = JsPackageManagerFactory.getPackageManager() as any;
-
-    const storybookDirs = await glob('**/.storybook', {
-        onlyDirectories: true,
-        ignore: ['**/node_modules/**'],
-    });
+const reviewPendingChanges = async (options: CliOptions): Promise<void> => {
+    if (!isDryRun()) {
+        return;
+    }
 
-    if (storybookDirs.length === 0) {
-        displayMessage(
-            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.',
-            { title: '❌ No Storybook Config Found', borderColor: 'yellow' },
-        );
-        process.exit(1);
+    const changes = getPendingChanges();
+    if (changes.length === 0) {
+        displayMessage('No files would be changed.', { title: '🔎 Dry Run', borderColor: 'blue' });
+        return;
     }
 
-    // Show all found Storybook projects and let user select one
     displayMessage(
-        `I found ${chalk.cyan(storybookDirs.length)} Storybook ${storybookDirs.length === 1 ? 'project' : 'projects'}.`,
-        { title: '📚 Storybook Projects', borderColor: 'magenta' },
+        `The following ${changes.length === 1 ? 'file would be' : `${changes.length} files would be`} changed:\n${changes
+            .map((change) => `  - ${path.relative(process.cwd(), change.path)}${change.before === null ? ' (new)' : ''}`)
+            .join('\n')}`,
+        { title: '🔎 Dry Run', borderColor: 'blue' },
     );
+    changes.forEach((change) => console.log(`${formatDiff(change)}\n`));
 
-    const { selectedProject } = await prompt({
-        type: 'select',
-        name: 'selectedProject',
-        message: 'Which Storybook project would you like to configure?',
-        choices: [
-            ...storybookDirs.map((dir) => ({
-                title: dir,
-                value: dir,
-                description: `Configure Chromatic for ${dir}`,
-            })),
-            {
-                title: 'Exit',
-                value: 'exit',
-                description: 'Exit the configuration helper',
-            },
-        ],
+    const apply = isInteractive(options) && (await confirm(options, 'Would you like to apply these changes?', false));
+    if (!apply) {
+        displayMessage('Dry run complete. No files were written.', { title: '🔎 Dry Run', borderColor: 'blue' });
+        return;
+    }
+
+    const written = applyPendingChanges();
+    displayMessage(`Wrote ${written.map((change) => path.relative(process.cwd(), change.path)).join(', ')}`, {
+        title: '✅ Changes Applied',
+        borderColor: 'green',
     });
+};
 
-    if (selectedProject === 'exit') {
-        await handleExit();
-    }
+/**
+ * Outcome of configuring a single Storybook project, used for the session summary
+ */
+interface ProjectSetupResult {
+    project: string;
+    config: 'created' | 'updated' | 'unchanged' | 'shown' | 'failed';
+    configPath?: string;
+    externalsAdded: number;
+    scriptUpdated: boolean;
+    error?: string;
+}
+
+/**
+ * Runs the configuration pipeline for a single Storybook project: metadata detection,
+ * config create/update, static assets and the package.json script. Returns `'exit'` when
+ * the user chooses to exit, so the session can still review staged changes and summarize.
+ */
+const configureProject = async (
+    selectedProject: string,
+    manager: any,
+    options: CliOptions,
+): Promise<ProjectSetupResult | 'exit'> => {
+    const result: ProjectSetupResult = {
+        project: selectedProject,
+        config: 'unchanged',
+        externalsAdded: 0,
+        scriptUpdated: false,
+    };
 
     // Process the selected Storybook project
     displayMessage(`Processing Storybook configuration in ${chalk.cyan(selectedProject)}`, {
@@ -97,6 +123,7 @@ const initMode = async () => {
         borderColor: 'magenta',
     });
 
+    const { findConfigFile, readConfig } = loadStorybookModules();
     const mainConfigPath = findConfigFile('main', selectedProject);
     const mainConfig = await readConfig(mainConfigPath);
     const meta = await buildProjectMeta(manager, mainConfig, selectedProject, '');
@@ -123,7 +150,20 @@ const initMode = async () => {
         ),
     );
 
-    const { configAction } = await prompt({
+    const mainWarnings = (await analyzeMainConfig(mainConfig, selectedProject, mainConfigPath)).findings.filter(
+        (finding) => finding.level === 'warning',
+    );
+    if (mainWarnings.length > 0) {
+        displayMessage(
+            `${mainWarnings.map((finding) => `⚠️  ${chalk.cyan(finding.value)} ${finding.message}`).join('\n\n')}\n\nRun ${chalk.cyan(
+                `npx @chromatic-com/turbosnap-helper main --project ${selectedProject}`,
+            )} for details.`,
+            { title: '🧭 Main Config Hazards', borderColor: 'yellow' },
+        );
+    }
+
+    // Without prompts there is nothing to show the values to, so go straight to creating/updating
+    const { configAction } = !isInteractive(options) ? { configAction: 'create' } : await prompt({
         type: 'select',
         name: 'configAction',
         message: 'What would you like to do with these configuration values?',
@@ -146,8 +186,9 @@ const initMode = async () => {
         ],
     });
 
-    if (configAction === 'exit') {
-        await handleExit();
+    // A cancelled prompt (Ctrl-C) answers with undefined
+    if (configAction === 'exit' || configAction === undefined) {
+        return 'exit';
     }
 
     if (configAction === 'show') {
@@ -170,22 +211,21 @@ const initMode = async () => {
                 },
             ),
         );
-        process.exit(0);
+        return { ...result, config: 'shown' };
     }
 
-    const existingConfig = await findChromaticConfig(selectedProject);
+    const existingConfig = await findChromaticConfig(selectedProject, options);
     let finalConfig;
 
     if (existingConfig) {
-        const { updateConfig } = await prompt({
-            type: 'confirm',
-            name: 'updateConfig',
-            message: 'Would you like to update the existing config file with the current Storybook settings?',
-            initial: true,
-        });
+        const updateConfig = await confirm(
+            options,
+            'Would you like to update the existing config file with the current Storybook settings?',
+        );
 
         if (updateConfig) {
             finalConfig = await updateChromaticConfig(existingConfig.path, existingConfig.config, meta);
+            result.config = 'updated';
             configState.config = finalConfig.config;
             configState.configPath = finalConfig.path;
         } else {
@@ -195,7 +235,8 @@ const initMode = async () => {
             configState.config = finalConfig.config;
         }
     } else {
-        finalConfig = await createChromaticConfig(meta);
+        finalConfig = await createChromaticConfig(meta, options);
+        result.config = 'created';
         configState.configPath = finalConfig.path;
         configState.config = finalConfig.config;
     }
@@ -203,49 +244,13 @@ const initMode = async () => {
     // Check for static assets
     const staticAssets = await findStaticAssets(meta.storybookBaseDir, process.cwd());
     if (staticAssets.projectAssets.length > 0 || staticAssets.repoAssets.length > 0) {
-        const externals = await promptForStaticAssets(staticAssets, meta.storybookBaseDir, process.cwd());
+        const externals = await promptForStaticAssets(staticAssets, meta.storybookBaseDir, process.cwd(), options);
         if (externals.length > 0) {
             // Get existing externals from the config
-            const existingExternals = finalConfig.config.externals || [];
-
-            // Create a new array to store the updated externals
-            const newExternals: string[] = [];
-            const removedPaths: string[] = [];
-            const addedPatterns: string[] = [];
-
-            // First, process existing externals
-            existingExternals.forEach((existingPath) => {
-                // Check if this existing path is matched by any new pattern
-                const matchingPattern = externals.find((newPattern) => {
-                    // If the existing path is a specific file
-                    if (!existingPath.includes('*') && !existingPath.includes('?')) {
-                        // Check if this specific file would be matched by the new pattern
-                        return minimatch(existingPath, newPattern);
-                    }
-                    // If the existing path is a glob pattern
-                    // Check if the new pattern would match the same files
-                    return minimatch(existingPath, newPattern) || minimatch(newPattern, existingPath);
-                });
-
-                if (matchingPattern) {
-                    removedPaths.push(existingPath);
-                    // Add the matching pattern if it's not already in newExternals
-                    if (!newExternals.includes(matchingPattern)) {
-                        newExternals.push(matchingPattern);
-                        addedPatterns.push(matchingPattern);
-                    }
-                } else {
-                    newExternals.push(existingPath);
-                }
-            });
-
-            // Then add any remaining new patterns that aren't already covered
-            externals.forEach((newPattern) => {
-                if (!newExternals.includes(newPattern)) {
-                    newExternals.push(newPattern);
-                    addedPatterns.push(newPattern);
-                }
-            });
+            const { externals: newExternals, removedPaths, addedPatterns } = mergeExternals(
+                finalConfig.config.externals || [],
+                externals,
+            );
 
             // Update the config with new externals while preserving all other options
             const updatedConfig = {
@@ -256,9 +261,10 @@ const initMode = async () => {
             } as ChromaticConfig;
 
             // Write the updated config
-            fs.writeFileSync(finalConfig.path, JSON.stringify(updatedConfig, null, 2));
+            writeJsonFile(finalConfig.path, updatedConfig);
             configState.config = updatedConfig;
             finalConfig.config = updatedConfig;
+            result.externalsAdded = addedPatterns.length;
 
             // Display changes made
             if (removedPaths.length > 0) {
@@ -297,19 +303,18 @@ const initMode = async () => {
         }
     }
 
-    const { updateScript } = await prompt({
-        type: 'confirm',
-        name: 'updateScript',
-        message: 'Would you like to update the package.json script to use this config file?',
-        initial: true,
-    });
+    const updateScript = await confirm(
+        options,
+        'Would you like to update the package.json script to use this config file?',
+    );
 
     if (updateScript) {
-        const packageJsonChanges = await updatePackageJsonScript(finalConfig.path, meta);
+        const packageJsonChanges = await updatePackageJsonScript(finalConfig.path, meta, options);
         if (packageJsonChanges) {
-            fs.writeFileSync(packageJsonChanges.path, JSON.stringify(packageJsonChanges.content, null, 2));
+            writeJsonFile(packageJsonChanges.path, packageJsonChanges.content);
+            result.scriptUpdated = true;
             displayMessage(
-                `Updated package.json with Chromatic script using config file: ${path.relative(
+                `${isDryRun() ? 'Would update' : 'Updated'} package.json with Chromatic script using config file: ${path.relative(
                     process.cwd(),
                     finalConfig.path,
                 )}
@@ -321,18 +326,127 @@ configFile: '${path.relative(process.cwd(), finalConfig.path)}'`,
         }
     }
 
-    // Ask if user wants to configure another project
-    if (storybookDirs.length > 1) {
-        const { configureAnother } = await prompt({
-            type: 'confirm',
-            name: 'configureAnother',
-            message: 'Would you like to configure another Storybook project?',
-            initial: true,
+    return { ...result, configPath: finalConfig.path };
+};
+
+/**
+ * Displays a table summarizing every project configured in this session
+ */
+const displaySetupSummary = (results: ProjectSetupResult[]) => {
+    const rows = [
+        ['Project', 'Config', 'Externals added', 'Script'],
+        ...results.map((result) => [
+            result.project,
+            result.config,
+            String(result.externalsAdded),
+            result.scriptUpdated ? 'updated' : 'unchanged',
+        ]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('   ');
+
+    const failures = results.filter((result) => result.error);
+
+    displayMessage(
+        [
+            chalk.bold(formatRow(rows[0])),
+            ...rows.slice(1).map((row, index) => {
+                const line = formatRow(row);
+                return results[index].error ? chalk.red(line) : line;
+            }),
+            ...(failures.length > 0
+                ? ['', ...failures.map((result) => `🚨 ${result.project}: ${result.error}`)]
+                : []),
+        ].join('\n'),
+        { title: '📊 Configuration Summary', borderColor: failures.length > 0 ? 'yellow' : 'green' },
+    );
+};
+
+/**
+ * Initialize Chromatic configuration
+ */
+const initMode = async (options: CliOptions) => {
+    displayMessage('CLI tool for helping you configure Chromatic Turbosnap for your project', {
+        title: '@chromaui/turbosnap-helper',
+        borderColor: 'magenta',
+    });
+
+    setDryRun(options.dryRun);
+
+    if (options.all && options.project) {
+        throw new CliOptionsError('--all and --project cannot be used together.');
+    }
+
+    const manager = loadStorybookModules().JsPackageManagerFactory.getPackageManager() as any;
+
+    const storybookDirs = await glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+    if (storybookDirs.length === 0) {
+        displayMessage(
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.',
+            { title: '❌ No Storybook Config Found', borderColor: 'yellow' },
+        );
+        process.exit(1);
+    }
+
+    // Show all found Storybook projects and let user select one
+    displayMessage(
+        `I found ${chalk.cyan(storybookDirs.length)} Storybook ${storybookDirs.length === 1 ? 'project' : 'projects'}.`,
+        { title: '📚 Storybook Projects', borderColor: 'magenta' },
+    );
+
+    const results: ProjectSetupResult[] = [];
+
+    if (options.all) {
+        // Keep going when one project fails so the summary covers every project
+        for (const project of storybookDirs) {
+            try {
+                const result = await configureProject(project, manager, options);
+                if (result === 'exit') {
+                    break;
+                }
+                results.push(result);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                displayMessage(message, { title: `❌ ${project}`, borderColor: 'red' });
+                results.push({ project, config: 'failed', externalsAdded: 0, scriptUpdated: false, error: message });
+            }
+        }
+    } else {
+        let selectedProject = await selectStorybookProject(storybookDirs, options, {
+            message: 'Which Storybook project would you like to configure?',
+            describe: (dir) => `Configure Chromatic for ${dir}`,
+            exitDescription: 'Exit the configuration helper',
         });
 
-        if (configureAnother) {
-            // Remove the current project from the list
-            const remainingProjects = storybookDirs.filter((dir) => dir !== selectedProject);
+        while (selectedProject !== 'exit') {
+            const result = await configureProject(selectedProject, manager, options);
+            if (result === 'exit') {
+                break;
+            }
+            results.push(result);
+
+            // Remove the configured projects from the list
+            const remainingProjects = storybookDirs.filter((dir) => !results.some((result) => result.project === dir));
+
+            // Ask if user wants to configure another project
+            if (remainingProjects.length === 0 || !isInteractive(options)) {
+                break;
+            }
+
+            const { configureAnother } = await prompt({
+                type: 'confirm',
+                name: 'configureAnother',
+                message: 'Would you like to configure another Storybook project?',
+                initial: true,
+            });
+
+            if (!configureAnother) {
+                break;
+            }
 
             const { nextProject } = await prompt({
                 type: 'select',
@@ -352,15 +466,21 @@ configFile: '${path.relative(process.cwd(), finalConfig.path)}'`,
                 ],
             });
 
-            if (nextProject === 'exit') {
-                await handleExit();
-            }
-        } else {
-            await handleExit();
+            selectedProject = nextProject ?? 'exit';
         }
-    } else {
-        await handleExit();
     }
+
+    await reviewPendingChanges(options);
+
+    if (results.length > 1) {
+        displaySetupSummary(results);
+    }
+
+    if (results.some((result) => result.error)) {
+        process.exit(1);
+    }
+
+    await handleExit();
 };
 
 const helpMode = async () => {
@@ -375,12 +495,56 @@ Commands:
     init, -i, --init (default)      Initialize or update Chromatic configuration
     analyze, -a, --analyze          Analyze project for potential issues
     preview, -p, --preview          Analyze preview files for potential issues
+    check, -c, --check              Check an existing Chromatic config against your project
+    impact <files...>               List the stories that changes to the given files would retest
+    predict --base <ref>            Estimate what TurboSnap would retest for the changes since a git ref
+    fix [files...]                  Rewrite require() calls and dynamic imports as static imports
+    main                            Explain how the Storybook main config affects TurboSnap
     help, -h, --help                Show this help message
 
+Init options:
+    --project <path>                Storybook project to configure (project or .storybook directory)
+    --project-id <id>               Chromatic project ID for new config files
+    --assets <level>                Static assets to add to externals: project, repo, both or none
+    --externals-style <style>       Add assets to externals as glob patterns or individual paths
+    --script-name <name>            Name of the Chromatic script to add to package.json
+    --yes, -y                       Answer yes to every confirmation and never prompt
+    --dry-run                       Preview every file change as a diff; nothing is written until confirmed
+    --all                           Configure every Storybook project found in the repository
+
+Analyze and preview options:
+    --project <path>                Storybook project to analyze
+    --all-projects                  Analyze every Storybook project and print a combined report
+    --format <format>               Output format: text (default) or json
+    --sarif <file>                  Also write findings to a SARIF 2.1.0 report
+    --no-cache                      Don't read or write the analysis cache in node_modules/.cache
+
+Impact and predict options:
+    --project <path>                Storybook project whose stories to check
+    --base <ref>                    Git ref to compare the working tree against (predict only)
+    --format <format>               Output format: text (default) or json
+
+Main options:
+    --project <path>                Storybook project whose main config to check
+    --format <format>               Output format: text (default) or json
+
+Fix options:
+    --project <path>                Storybook project whose stories and their imports to fix
+    --yes, -y                       Apply every file's changes without asking
+    --dry-run                       Show the changes as diffs without writing them
+
 Examples:
     npx @chromatic-com/turbosnap-helper
+    npx @chromatic-com/turbosnap-helper init --project packages/app --project-id abc123 --assets none --yes
     npx @chromatic-com/turbosnap-helper analyze
     npx @chromatic-com/turbosnap-helper --preview
+    npx @chromatic-com/turbosnap-helper analyze --project packages/app --format json
+    npx @chromatic-com/turbosnap-helper analyze --all-projects
+    npx @chromatic-com/turbosnap-helper check --project packages/app
+    npx @chromatic-com/turbosnap-helper impact src/utils/format.ts --project packages/app
+    npx @chromatic-com/turbosnap-helper predict --base origin/main --project packages/app
+    npx @chromatic-com/turbosnap-helper fix --project packages/app --dry-run
+    npx @chromatic-com/turbosnap-helper main --project packages/app
     npx @chromatic-com/turbosnap-helper -h
     `, {
         title: '❓ Help Mode',
@@ -393,24 +557,46 @@ Examples:
  * Main function that handles mode selection and execution
  */
 const main = async () => {
-    // Get the mode from command line arguments
-    const mode = process.argv[2] || 'init';
+    // Get the mode and flags from command line arguments
+    const options = parseCliOptions(process.argv.slice(2));
+    const { mode } = options;
+
+    if (options.files.length > 0 && mode !== 'impact' && mode !== 'fix') {
+        throw new CliOptionsError(`Unknown option: ${options.files[0]}`);
+    }
 
     switch (mode) {
         case 'init':
         case '-i':
         case '--init':
-            await initMode();
+            await initMode(options);
             break;
         case 'analyze':
         case '-a':
         case '--analyze':
-            await analyzeMode();
+            await (options.allProjects ? allProjectsMode(options) : analyzeMode(options));
             break;
         case 'preview':
         case '-p':
         case '--preview':
-            await previewMode();
+            await (options.allProjects ? allProjectsMode(options) : previewMode(options));
+            break;
+        case 'check':
+        case '-c':
+        case '--check':
+            await checkMode(options);
+            break;
+        case 'impact':
+            await impactMode(options);
+            break;
+        case 'predict':
+            await predictMode(options);
+            break;
+        case 'fix':
+            await fixMode(options);
+            break;
+        case 'main':
+            await mainMode(options);
             break;
         case 'help':
         case '-h':
@@ -418,7 +604,7 @@ const main = async () => {
             await helpMode();
             break;
         default:
-            displayMessage(`Unknown mode: ${mode}. Available modes: init (default), analyze, preview`, {
+            displayMessage(`Unknown mode: ${mode}. Available modes: init (default), analyze, preview, check, impact, predict, fix, main`, {
                 title: '❌ Error',
                 borderColor: 'red',
             });
@@ -432,11 +618,13 @@ process.on('SIGINT', async () => {
 });
 
 // Execute the main function
+// Node exits once stdout has drained, so piped JSON output isn't cut off
 main()
-    .then(() => {
-        process.exit(0);
-    })
     .catch((e) => {
-        console.error(e);
+        if (e instanceof TurbosnapHelperError) {
+            displayMessage(e.message, { title: '❌ Error', borderColor: 'red' });
+        } else {
+            console.error(e);
+        }
         process.exit(1);
     });
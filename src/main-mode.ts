@@ -0,0 +1,521 @@
+import { glob } from 'fast-glob';
+import chalk from 'chalk';
+import path from 'path';
+import type { types as t } from 'storybook/internal/babel';
+import type { ConfigFile } from 'storybook/internal/csf-tools';
+import { loadStorybookModules } from './storybook-resolver';
+import { displayMessage, printJson } from './utils';
+import {
+    CliOptions,
+    MainAddon,
+    MainBundlerAlias,
+    MainConfigField,
+    MainConfigFinding,
+    MainConfigReport,
+    MainStaticDir,
+    MainStoriesEntry,
+} from './types';
+import { getLiteralValue, getNodeSource, getPropertyName, walkAst } from './import-parser';
+import { selectStorybookProject } from './project-detection';
+
+/**
+ * Addons known to add decorators or other preview code to every story
+ */
+const DECORATOR_ADDONS = [
+    '@storybook/addon-essentials',
+    '@storybook/addon-backgrounds',
+    '@storybook/addon-viewport',
+    '@storybook/addon-measure',
+    '@storybook/addon-outline',
+    '@storybook/addon-themes',
+    '@storybook/addon-styling',
+    '@storybook/addon-styling-webpack',
+    'storybook-dark-mode',
+];
+
+const toRelative = (file: string) => path.relative(process.cwd(), file) || '.';
+
+const isOutside = (projectRoot: string, dir: string) => {
+    const relative = path.relative(path.resolve(projectRoot), dir);
+    return relative.startsWith('..') || path.isAbsolute(relative);
+};
+
+/**
+ * Returns the value of an object literal property, like `from` in `{ from: '../public', to: '/' }`
+ */
+const getProperty = (node: t.Node | null | undefined, name: string): t.Node | undefined =>
+    node?.type === 'ObjectExpression'
+        ? node.properties.find(
+              (property): property is t.ObjectProperty =>
+                  property.type === 'ObjectProperty' && getPropertyName(property.key) === name,
+          )?.value
+        : undefined;
+
+/**
+ * Works out the directory a path expression points to without running the config: a string
+ * literal relative to the config directory, or `path.resolve()` and `path.join()` calls made of
+ * string literals and `__dirname`
+ */
+export const evaluatePath = (node: t.Node | null | undefined, configDir: string): string | undefined => {
+    const literal = getLiteralValue(node);
+    if (literal !== undefined) {
+        return path.resolve(configDir, literal);
+    }
+    if (node?.type !== 'CallExpression') {
+        return undefined;
+    }
+
+    const { callee } = node;
+    const method =
+        callee.type === 'MemberExpression'
+            ? getPropertyName(callee.property)
+            : callee.type === 'Identifier'
+            ? callee.name
+            : undefined;
+    if (method !== 'resolve' && method !== 'join') {
+        return undefined;
+    }
+
+    const parts = node.arguments.map((argument) =>
+        argument.type === 'Identifier' && argument.name === '__dirname'
+            ? path.resolve(configDir)
+            : getLiteralValue(argument),
+    );
+    return parts.every((part): part is string => part !== undefined) ? path.resolve(configDir, ...parts) : undefined;
+};
+
+/**
+ * Reads an addon's name from `'name'`, `getAbsolutePath('name')` or `{ name: 'name', options }`
+ */
+const getAddonName = (node: t.Node | null | undefined): string | undefined => {
+    const literal = getLiteralValue(node);
+    if (literal !== undefined) {
+        return literal;
+    }
+    if (node?.type === 'CallExpression') {
+        return getLiteralValue(node.arguments[0]);
+    }
+    const name = getProperty(node, 'name');
+    return name ? getAddonName(name) : undefined;
+};
+
+/**
+ * Reads the `stories` entries and the directories and globs Storybook searches for them
+ */
+const readStories = async (
+    mainConfig: ConfigFile,
+    configDir: string,
+    projectRoot: string,
+): Promise<MainStoriesEntry[]> => {
+    const { normalizeStories } = loadStorybookModules();
+    const entries = mainConfig.getSafeFieldValue(['stories']);
+    if (!Array.isArray(entries)) {
+        return [];
+    }
+
+    const specifiers = normalizeStories(entries, { configDir, workingDir: process.cwd() });
+    return Promise.all(
+        specifiers.map(async (specifier: { directory: string; files: string }, index: number) => {
+            const directory = path.resolve(specifier.directory);
+            const matches = await glob(specifier.files, { cwd: directory, ignore: ['**/node_modules/**'] });
+            return {
+                entry: typeof entries[index] === 'string' ? entries[index] : JSON.stringify(entries[index]),
+                directory: toRelative(directory),
+                files: specifier.files,
+                matchedFiles: matches.length,
+                outsideProject: isOutside(projectRoot, directory),
+            };
+        }),
+    );
+};
+
+/**
+ * Reads the `staticDirs` entries and counts the files in each directory
+ */
+export const readStaticDirs = async (
+    mainConfig: ConfigFile,
+    configDir: string,
+    projectRoot: string,
+): Promise<MainStaticDir[]> => {
+    const node = mainConfig.getFieldNode(['staticDirs']);
+    if (node?.type !== 'ArrayExpression') {
+        return [];
+    }
+
+    return Promise.all(
+        node.elements
+            .flatMap((element) => (element ? [element] : []))
+            .map(async (element) => {
+                const fromNode = getProperty(element, 'from') ?? element;
+                const to = getLiteralValue(getProperty(element, 'to'));
+                const directory = evaluatePath(fromNode, configDir);
+                const files = directory ? await glob('**/*', { cwd: directory, ignore: ['**/node_modules/**'] }) : [];
+                return {
+                    from: getLiteralValue(fromNode) ?? getNodeSource(mainConfig._code, fromNode),
+                    ...(to !== undefined && { to }),
+                    ...(directory && { directory: toRelative(directory) }),
+                    files: files.length,
+                    outsideProject: directory ? isOutside(projectRoot, directory) : false,
+                };
+            }),
+    );
+};
+
+/**
+ * Finds the `resolve.alias` entries set in `webpackFinal` and `viteFinal`, in either webpack's
+ * `{ find: replacement }` form or Vite's `[{ find, replacement }]` form
+ */
+const readBundlerAliases = (mainConfig: ConfigFile, configDir: string, projectRoot: string): MainBundlerAlias[] => {
+    const code = mainConfig._code;
+    const aliases: MainBundlerAlias[] = [];
+
+    (['webpackFinal', 'viteFinal'] as const).forEach((field) => {
+        const node = mainConfig.getFieldNode([field]);
+        if (!node) {
+            return;
+        }
+
+        const addAlias = (findNode: t.Node, replacementNode: t.Node) => {
+            // A string replacement is usually a package name, or a path relative to the bundler's root
+            const directory =
+                getLiteralValue(replacementNode) === undefined ? evaluatePath(replacementNode, configDir) : undefined;
+            aliases.push({
+                field,
+                find: getPropertyName(findNode) ?? getNodeSource(code, findNode),
+                replacement: getNodeSource(code, replacementNode),
+                ...(directory && { directory: toRelative(directory) }),
+                outsideProject: directory ? isOutside(projectRoot, directory) : false,
+            });
+        };
+
+        // Matches `alias: ...` in an object literal and `config.resolve.alias = ...`
+        walkAst(node, (child) => {
+            const value =
+                child.type === 'ObjectProperty' && getPropertyName(child.key) === 'alias'
+                    ? child.value
+                    : child.type === 'AssignmentExpression' &&
+                      child.left.type === 'MemberExpression' &&
+                      getPropertyName(child.left.property) === 'alias'
+                    ? child.right
+                    : undefined;
+            if (value?.type === 'ObjectExpression') {
+                value.properties.forEach((property) => {
+                    if (property.type === 'ObjectProperty') {
+                        addAlias(property.key, property.value);
+                    }
+                });
+            } else if (value?.type === 'ArrayExpression') {
+                value.elements.forEach((element) => {
+                    const find = getProperty(element, 'find');
+                    const replacement = getProperty(element, 'replacement');
+                    if (find && replacement) {
+                        addAlias(find, replacement);
+                    }
+                });
+            }
+        });
+    });
+
+    return aliases;
+};
+
+/**
+ * Reads the `addons` entries
+ */
+const readAddons = (mainConfig: ConfigFile): MainAddon[] => {
+    const node = mainConfig.getFieldNode(['addons']);
+    if (node?.type !== 'ArrayExpression') {
+        return [];
+    }
+
+    return node.elements
+        .flatMap((element) => (element ? [element] : []))
+        .map((element) => {
+            const name = getAddonName(element) ?? getNodeSource(mainConfig._code, element);
+            return {
+                name,
+                local: name.startsWith('.') || path.isAbsolute(name),
+                injectsDecorators: DECORATOR_ADDONS.includes(name),
+            };
+        });
+};
+
+/**
+ * Explains what each setting means for TurboSnap, flagging the ones that make it retest more
+ * than it needs to, or miss changes
+ */
+const explainSettings = (
+    report: Omit<MainConfigReport, 'findings'>,
+    mainConfig: ConfigFile,
+    projectRoot: string,
+): MainConfigFinding[] => {
+    const findings: MainConfigFinding[] = [];
+    const add = (field: MainConfigField, level: MainConfigFinding['level'], value: string, message: string) =>
+        findings.push({ field, level, value, message });
+
+    if (mainConfig.getFieldNode(['stories']) && report.stories.length === 0) {
+        add(
+            'stories',
+            'info',
+            'stories',
+            "stories is built at runtime, so it can't be checked. The analysis modes fall back to every story file next to the config directory.",
+        );
+    }
+    report.stories.forEach((entry) => {
+        if (entry.outsideProject) {
+            add(
+                'stories',
+                'warning',
+                entry.entry,
+                `reaches outside the project into ${entry.directory}. Every story it matches, and everything those stories import, is bundled into this Storybook, so changes elsewhere in the repository retest stories here.`,
+            );
+        } else if (entry.files.startsWith('**') && path.resolve(entry.directory) === path.resolve(projectRoot)) {
+            add(
+                'stories',
+                'info',
+                entry.entry,
+                'searches the whole project, including folders like build output or fixtures. Narrow it to the folder your stories live in, like ../src/**/*.stories.*',
+            );
+        }
+        if (entry.matchedFiles === 0) {
+            add('stories', 'info', entry.entry, "doesn't match any files.");
+        }
+    });
+
+    report.staticDirs.forEach((dir) => {
+        if (!dir.directory) {
+            add('staticDirs', 'info', dir.from, "is built at runtime, so its files can't be listed.");
+            return;
+        }
+        const files = `${dir.files} ${dir.files === 1 ? 'file is' : 'files are'}`;
+        const externals = `${dir.directory}/**`;
+        const outside = dir.outsideProject ? ' The directory is outside the project.' : '';
+        add(
+            'staticDirs',
+            'warning',
+            dir.from,
+            `${files} copied into the build without going through the bundler, so TurboSnap can't tell which stories use them and won't retest anything when they change. List them in externals, like "${externals}", to retest every story when they do.${outside}`,
+        );
+    });
+
+    (['webpackFinal', 'viteFinal'] as const).forEach((field) => {
+        const aliases = report.aliases.filter((alias) => alias.field === field);
+        if (aliases.length > 0) {
+            add(
+                field,
+                'info',
+                field,
+                `sets ${aliases.length} ${
+                    aliases.length === 1 ? 'alias' : 'aliases'
+                }. TurboSnap traces imports through them, but the analyze, impact and predict modes only resolve tsconfig paths, so they can miss files imported through these aliases.`,
+            );
+        }
+        aliases
+            .filter((alias) => alias.outsideProject)
+            .forEach((alias) =>
+                add(
+                    field,
+                    'warning',
+                    alias.find,
+                    `points outside the project to ${alias.directory}. Files imported through it are bundled into this Storybook, so changes to them retest the stories that import them.`,
+                ),
+            );
+    });
+
+    report.addons.forEach((addon) => {
+        if (addon.local) {
+            add(
+                'addons',
+                'warning',
+                addon.name,
+                'lives in the repository. If it adds preview code, like decorators or global styles, that code is part of every story and any change to it retests every story.',
+            );
+        } else if (addon.injectsDecorators) {
+            add(
+                'addons',
+                'info',
+                addon.name,
+                'adds decorators to every story. Its preview code is part of every story, so upgrading or reconfiguring it retests every story.',
+            );
+        }
+    });
+
+    return findings;
+};
+
+/**
+ * Lists the settings in a Storybook's main config that affect what TurboSnap traces: the
+ * `stories` globs, `staticDirs`, aliases set in `webpackFinal` or `viteFinal`, and addons.
+ * Reads the config without running it, so values built at runtime are reported as such.
+ */
+export const analyzeMainConfig = async (
+    mainConfig: ConfigFile,
+    configDir: string,
+    configFile: string = configDir,
+): Promise<MainConfigReport> => {
+    const projectRoot = path.dirname(path.resolve(configDir));
+    const settings = {
+        mode: 'main' as const,
+        project: configDir,
+        configFile: toRelative(path.resolve(configFile)),
+        stories: await readStories(mainConfig, configDir, projectRoot),
+        staticDirs: await readStaticDirs(mainConfig, configDir, projectRoot),
+        aliases: readBundlerAliases(mainConfig, configDir, projectRoot),
+        addons: readAddons(mainConfig),
+    };
+
+    return { ...settings, findings: explainSettings(settings, mainConfig, projectRoot) };
+};
+
+const formatFindings = (findings: MainConfigFinding[]) =>
+    findings
+        .map((finding) =>
+            finding.level === 'warning'
+                ? `    ↳ ${chalk.yellow(`⚠️  ${finding.message}`)}`
+                : `    ↳ ${chalk.dim(`ℹ️  ${finding.message}`)}`,
+        )
+        .join('\n');
+
+/**
+ * Lists a section's settings, each followed by what it means for TurboSnap
+ */
+const formatSection = (
+    report: MainConfigReport,
+    fields: MainConfigField[],
+    lines: { value: string; text: string }[],
+    empty: string,
+) => {
+    const findings = report.findings.filter((finding) => fields.includes(finding.field));
+    const sectionFindings = findings.filter((finding) => !lines.some((line) => line.value === finding.value));
+    const body = lines.map((line) => {
+        const lineFindings = findings.filter((finding) => finding.value === line.value);
+        return lineFindings.length > 0 ? `${line.text}\n${formatFindings(lineFindings)}` : line.text;
+    });
+
+    return [
+        ...(body.length > 0 ? body : [chalk.dim(empty)]),
+        ...sectionFindings.map((finding) =>
+            finding.level === 'warning'
+                ? chalk.yellow(`⚠️  ${finding.value} ${finding.message}`)
+                : chalk.dim(`ℹ️  ${finding.value} ${finding.message}`),
+        ),
+    ].join('\n');
+};
+
+/**
+ * Prints each group of settings with what it means for TurboSnap
+ */
+export const displayMainConfigReport = (report: MainConfigReport) => {
+    const warnings = report.findings.filter((finding) => finding.level === 'warning');
+    const sections = [
+        `📚 ${chalk.bold('stories')}\n${formatSection(
+            report,
+            ['stories'],
+            report.stories.map((entry) => ({
+                value: entry.entry,
+                text: `- ${chalk.cyan(entry.entry)} → ${entry.matchedFiles} ${
+                    entry.matchedFiles === 1 ? 'file' : 'files'
+                }`,
+            })),
+            'No stories entries found.',
+        )}`,
+        `🗂️  ${chalk.bold('staticDirs')}\n${formatSection(
+            report,
+            ['staticDirs'],
+            report.staticDirs.map((dir) => ({
+                value: dir.from,
+                text: `- ${chalk.cyan(dir.from)}${dir.to ? ` → ${dir.to}` : ''}`,
+            })),
+            'No static directories.',
+        )}`,
+        `🔀 ${chalk.bold('webpackFinal / viteFinal aliases')}\n${formatSection(
+            report,
+            ['webpackFinal', 'viteFinal'],
+            report.aliases.map((alias) => ({
+                value: alias.find,
+                text: `- ${chalk.cyan(alias.find)} → ${alias.replacement} ${chalk.dim(`(${alias.field})`)}`,
+            })),
+            'No aliases set.',
+        )}`,
+        `🧩 ${chalk.bold('addons')}\n${formatSection(
+            report,
+            ['addons'],
+            report.addons.map((addon) => ({ value: addon.name, text: `- ${chalk.cyan(addon.name)}` })),
+            'No addons.',
+        )}`,
+    ];
+
+    displayMessage(sections.join('\n\n'), {
+        title: `🧭 ${report.configFile}`,
+        borderColor: warnings.length > 0 ? 'yellow' : 'green',
+    });
+
+    displayMessage(
+        warnings.length > 0
+            ? `Found ${chalk.yellow(warnings.length)} ${
+                  warnings.length === 1 ? 'setting' : 'settings'
+              } that can make TurboSnap retest more stories than it needs to, or miss changes.`
+            : '✅ Nothing in main config gets in the way of TurboSnap.',
+        { title: '🧭 Main Config Summary', borderColor: warnings.length > 0 ? 'yellow' : 'green' },
+    );
+};
+
+/**
+ * Main mode for explaining how a Storybook's main config affects TurboSnap
+ */
+export const mainMode = async (options: CliOptions) => {
+    const isJson = options.format === 'json';
+
+    if (!isJson) {
+        displayMessage('Checking your Storybook main config for settings that affect TurboSnap', {
+            title: '🧭 Main Config Mode',
+            borderColor: 'magenta',
+        });
+    }
+
+    const storybookDirs = await glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+    if (storybookDirs.length === 0) {
+        const message =
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.';
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title: '❌ No Storybook Config Found', borderColor: 'yellow' });
+        }
+        process.exit(1);
+    }
+
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
+        message: 'Which Storybook project would you like to check?',
+        describe: (dir) => `Check the main config in ${dir}`,
+        exitDescription: 'Exit the main config checker',
+    });
+
+    if (selectedProject === 'exit') {
+        process.exit(0);
+    }
+
+    const { findConfigFile, readConfig } = loadStorybookModules();
+    const mainConfigPath = findConfigFile('main', selectedProject);
+    if (!mainConfigPath) {
+        const message = `No main config found in ${selectedProject}.`;
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title: '❌ No Main Config Found', borderColor: 'yellow' });
+        }
+        process.exit(1);
+    }
+
+    const report = await analyzeMainConfig(await readConfig(mainConfigPath), selectedProject, mainConfigPath);
+    if (isJson) {
+        printJson(report);
+    } else {
+        displayMainConfigReport(report);
+    }
+    process.exitCode = 0;
+};
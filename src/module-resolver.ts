@@ -0,0 +1,393 @@
+import fs from 'fs';
+import path from 'path';
+import { builtinModules } from 'module';
+import { FileLookup, ResolvedModule } from './types';
+import { readJson } from './utils';
+import { findWorkspacePackageDir } from './workspace-detection';
+
+/**
+ * Extensions tried, in order, for import paths written without one
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+const RESOLVABLE_EXTENSIONS = [...SOURCE_EXTENSIONS, '.json'];
+
+/**
+ * `exports` conditions that point at code a bundler would load, in order of preference
+ * when a package lists more than one
+ */
+const EXPORT_CONDITIONS = ['source', 'development', 'storybook', 'browser', 'import', 'module', 'require', 'default'];
+
+/**
+ * The parts of a tsconfig.json that affect module resolution, with paths made absolute
+ */
+interface TsconfigPaths {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+    pathsBase?: string;
+}
+
+/**
+ * Returns true for files that can contain imports, including MDX docs
+ */
+export const isSourceFile = (filePath: string) =>
+    [...SOURCE_EXTENSIONS, '.mdx'].includes(path.extname(filePath).toLowerCase());
+
+const isFile = (filePath: string) => {
+    try {
+        return fs.statSync(filePath).isFile();
+    } catch (error) {
+        return false;
+    }
+};
+
+const isDirectory = (filePath: string) => {
+    try {
+        return fs.statSync(filePath).isDirectory();
+    } catch (error) {
+        return false;
+    }
+};
+
+/**
+ * Checks paths against the file system directly
+ */
+export const fileSystemLookup: FileLookup = { isFile, isDirectory };
+
+/**
+ * Splits a bare specifier into its package name and subpath, so `@org/ui/button` becomes
+ * `@org/ui` and `button`
+ */
+export const splitPackageSpecifier = (source: string): { packageName: string; subpath: string } => {
+    const segments = source.split('/');
+    const nameLength = source.startsWith('@') ? 2 : 1;
+    return {
+        packageName: segments.slice(0, nameLength).join('/'),
+        subpath: segments.slice(nameLength).join('/'),
+    };
+};
+
+/**
+ * Resolves a file path the way bundlers do: as written, with each extension added, with a
+ * TypeScript source swapped in for a `.js` extension, and as a directory with an index file
+ */
+export const resolveFile = (candidate: string, lookup: FileLookup = fileSystemLookup): string | undefined => {
+    if (lookup.isFile(candidate)) {
+        return candidate;
+    }
+
+    for (const extension of RESOLVABLE_EXTENSIONS) {
+        if (lookup.isFile(`${candidate}${extension}`)) {
+            return `${candidate}${extension}`;
+        }
+    }
+
+    // TypeScript projects using ESM import `./button.js` to mean `./button.ts`
+    const jsExtension = path.extname(candidate);
+    if (['.js', '.jsx', '.mjs', '.cjs'].includes(jsExtension)) {
+        const withoutExtension = candidate.slice(0, -jsExtension.length);
+        const typescriptExtensions = { '.js': ['.ts', '.tsx'], '.jsx': ['.tsx'], '.mjs': ['.mts'], '.cjs': ['.cts'] }[
+            jsExtension
+        ]!;
+        for (const extension of typescriptExtensions) {
+            if (lookup.isFile(`${withoutExtension}${extension}`)) {
+                return `${withoutExtension}${extension}`;
+            }
+        }
+    }
+
+    if (lookup.isDirectory(candidate)) {
+        for (const extension of RESOLVABLE_EXTENSIONS) {
+            const indexFile = path.join(candidate, `index${extension}`);
+            if (lookup.isFile(indexFile)) {
+                return indexFile;
+            }
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Picks the target of an `exports` entry, following nested conditions
+ */
+const resolveExportTarget = (target: any): string | undefined => {
+    if (typeof target === 'string') {
+        return target;
+    }
+    if (Array.isArray(target)) {
+        return target.map(resolveExportTarget).find(Boolean);
+    }
+    if (target && typeof target === 'object') {
+        const condition = EXPORT_CONDITIONS.find((name) => name in target);
+        return condition ? resolveExportTarget(target[condition]) : undefined;
+    }
+    return undefined;
+};
+
+/**
+ * Maps a package subpath through its `exports` field, including `*` patterns
+ */
+const resolveExportsSubpath = (exportsField: any, subpath: string): string | undefined => {
+    const key = subpath ? `./${subpath}` : '.';
+    const isSubpathMap =
+        exportsField &&
+        typeof exportsField === 'object' &&
+        !Array.isArray(exportsField) &&
+        Object.keys(exportsField).some((name) => name.startsWith('.'));
+
+    if (!isSubpathMap) {
+        return key === '.' ? resolveExportTarget(exportsField) : undefined;
+    }
+
+    if (key in exportsField) {
+        return resolveExportTarget(exportsField[key]);
+    }
+
+    for (const [pattern, target] of Object.entries(exportsField)) {
+        const starIndex = pattern.indexOf('*');
+        if (starIndex === -1) continue;
+
+        const prefix = pattern.slice(0, starIndex);
+        const suffix = pattern.slice(starIndex + 1);
+        if (key.startsWith(prefix) && key.endsWith(suffix) && key.length >= prefix.length + suffix.length) {
+            const match = key.slice(prefix.length, key.length - suffix.length);
+            return resolveExportTarget(target)?.split('*').join(match);
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Resolves an import of a package's source files, such as a workspace package
+ */
+const resolvePackageEntry = (packageDir: string, subpath: string, lookup: FileLookup): string | undefined => {
+    const packageJson = readJson(path.join(packageDir, 'package.json')) ?? {};
+
+    if (packageJson.exports !== undefined) {
+        const target = resolveExportsSubpath(packageJson.exports, subpath);
+        const resolved = target && resolveFile(path.join(packageDir, target), lookup);
+        if (resolved) {
+            return resolved;
+        }
+    }
+
+    if (subpath) {
+        return resolveFile(path.join(packageDir, subpath), lookup);
+    }
+
+    // Workspace packages often point `main` at build output that may not exist yet
+    for (const field of ['source', 'module', 'main']) {
+        const resolved =
+            typeof packageJson[field] === 'string' && resolveFile(path.join(packageDir, packageJson[field]), lookup);
+        if (resolved) {
+            return resolved;
+        }
+    }
+
+    return resolveFile(path.join(packageDir, 'index'), lookup);
+};
+
+/**
+ * Creates a resolver that maps import specifiers to files, the way a bundler would. It honors
+ * `tsconfig.json` `paths` and `baseUrl`, `package.json` `exports`, index files, and workspace
+ * packages, found from the monorepo's package globs or linked into `node_modules`. Packages
+ * installed in `node_modules` are reported as external rather than followed. Tsconfig files and
+ * resolutions are cached, by specifier and importing directory, so create one resolver per analysis run. Pass a lookup backed by a file index to avoid checking
+ * the file system for every candidate.
+ */
+export const createModuleResolver = (lookup: FileLookup = fileSystemLookup) => {
+    const tsconfigCache = new Map<string, TsconfigPaths | undefined>();
+    const tsconfigFileCache = new Map<string, TsconfigPaths>();
+    const resolutionCache = new Map<string, ResolvedModule>();
+
+    /**
+     * Loads the resolution settings of a tsconfig file, following `extends`
+     */
+    const loadTsconfig = (configPath: string, seen = new Set<string>()): TsconfigPaths => {
+        const cached = tsconfigFileCache.get(configPath);
+        if (cached) {
+            return cached;
+        }
+
+        const config = readJson(configPath) ?? {};
+        const configDir = path.dirname(configPath);
+        seen.add(configPath);
+
+        let settings: TsconfigPaths = {};
+        const parents = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+        for (const parent of parents) {
+            let parentPath: string | undefined;
+            if (parent.startsWith('.') || path.isAbsolute(parent)) {
+                const candidate = path.resolve(configDir, parent);
+                parentPath = isFile(candidate) ? candidate : `${candidate}.json`;
+            } else {
+                try {
+                    parentPath = require.resolve(parent, { paths: [configDir] });
+                } catch (error) {
+                    parentPath = undefined;
+                }
+            }
+            if (parentPath && !seen.has(parentPath) && isFile(parentPath)) {
+                settings = { ...settings, ...loadTsconfig(parentPath, seen) };
+            }
+        }
+
+        const compilerOptions = config.compilerOptions ?? {};
+        if (typeof compilerOptions.baseUrl === 'string') {
+            settings.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+        }
+        if (compilerOptions.paths) {
+            settings.paths = compilerOptions.paths;
+            settings.pathsBase = settings.baseUrl ?? configDir;
+        }
+
+        tsconfigFileCache.set(configPath, settings);
+        return settings;
+    };
+
+    /**
+     * Finds the settings of the closest tsconfig.json above a directory
+     */
+    const getTsconfig = (dir: string): TsconfigPaths | undefined => {
+        if (tsconfigCache.has(dir)) {
+            return tsconfigCache.get(dir);
+        }
+
+        const configPath = path.join(dir, 'tsconfig.json');
+        const parentDir = path.dirname(dir);
+        const settings = isFile(configPath)
+            ? loadTsconfig(configPath)
+            : parentDir !== dir
+            ? getTsconfig(parentDir)
+            : undefined;
+
+        tsconfigCache.set(dir, settings);
+        return settings;
+    };
+
+    /**
+     * Resolves a specifier through tsconfig `paths`, then `baseUrl`
+     */
+    const resolveTsconfigPath = (source: string, fromDir: string): string | undefined => {
+        const tsconfig = getTsconfig(fromDir);
+        if (!tsconfig) {
+            return undefined;
+        }
+
+        if (tsconfig.paths) {
+            // The longest matching prefix wins, like in TypeScript
+            const matches = Object.entries(tsconfig.paths)
+                .map(([pattern, targets]) => {
+                    const starIndex = pattern.indexOf('*');
+                    if (starIndex === -1) {
+                        return pattern === source ? { prefixLength: pattern.length, match: '', targets } : undefined;
+                    }
+                    const prefix = pattern.slice(0, starIndex);
+                    const suffix = pattern.slice(starIndex + 1);
+                    return source.startsWith(prefix) &&
+                        source.endsWith(suffix) &&
+                        source.length >= prefix.length + suffix.length
+                        ? {
+                              prefixLength: prefix.length,
+                              match: source.slice(prefix.length, source.length - suffix.length),
+                              targets,
+                          }
+                        : undefined;
+                })
+                .filter((match): match is NonNullable<typeof match> => Boolean(match))
+                .sort((a, b) => b.prefixLength - a.prefixLength);
+
+            for (const { match, targets } of matches) {
+                for (const target of targets) {
+                    const resolved = resolveFile(
+                        path.resolve(tsconfig.pathsBase!, target.split('*').join(match)),
+                        lookup,
+                    );
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+
+        return tsconfig.baseUrl ? resolveFile(path.resolve(tsconfig.baseUrl, source), lookup) : undefined;
+    };
+
+    /**
+     * Resolves a bare specifier through the closest `node_modules` directory that contains the package
+     */
+    const resolvePackage = (source: string, fromDir: string): ResolvedModule => {
+        const { packageName, subpath } = splitPackageSpecifier(source);
+
+        // Workspace packages are followed to their source even when they aren't linked into node_modules
+        const workspacePackageDir = findWorkspacePackageDir(packageName, fromDir);
+        if (workspacePackageDir) {
+            const resolved = resolvePackageEntry(workspacePackageDir, subpath, lookup);
+            return resolved ? { type: 'file', path: resolved } : { type: 'unresolved' };
+        }
+
+        for (let dir = fromDir; ; dir = path.dirname(dir)) {
+            const packageDir = path.join(dir, 'node_modules', packageName);
+            if (isDirectory(packageDir)) {
+                const realDir = fs.realpathSync(packageDir);
+
+                // Workspace packages are symlinked from their source directory, so follow them
+                if (!realDir.split(path.sep).includes('node_modules')) {
+                    const resolved = resolvePackageEntry(realDir, subpath, lookup);
+                    return resolved ? { type: 'file', path: resolved } : { type: 'unresolved' };
+                }
+
+                return { type: 'external', packageName };
+            }
+
+            if (path.dirname(dir) === dir) {
+                break;
+            }
+        }
+
+        // Not installed, but it's still a package rather than a local file
+        return { type: 'external', packageName };
+    };
+
+    /**
+     * Resolves an import specifier from the directory of the file it appears in
+     */
+    const resolveFromDir = (source: string, fromDir: string): ResolvedModule => {
+        const specifier = source.split('?')[0];
+
+        if (specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) {
+            return { type: 'builtin' };
+        }
+
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            const resolved = resolveFile(path.resolve(fromDir, specifier), lookup);
+            return resolved ? { type: 'file', path: resolved } : { type: 'unresolved' };
+        }
+
+        const aliased = resolveTsconfigPath(specifier, fromDir);
+        if (aliased) {
+            return { type: 'file', path: aliased };
+        }
+
+        return resolvePackage(specifier, fromDir);
+    };
+
+    /**
+     * Resolves an import specifier from the file it appears in
+     */
+    const resolve = (source: string, fromFile: string): ResolvedModule => {
+        const fromDir = path.dirname(path.resolve(fromFile));
+        const cacheKey = `${fromDir}\0${source}`;
+        let resolved = resolutionCache.get(cacheKey);
+        if (!resolved) {
+            resolved = resolveFromDir(source, fromDir);
+            resolutionCache.set(cacheKey, resolved);
+        }
+        return resolved;
+    };
+
+    return { resolve, isFile: lookup.isFile };
+};
+
+export type ModuleResolver = ReturnType<typeof createModuleResolver>;
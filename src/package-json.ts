@@ -1,17 +1,62 @@
-import { ProjectMeta } from './types';
+import { CliOptions, ProjectMeta } from './types';
 import { displayMessage } from './utils';
+import { confirm, isInteractive } from './cli-options';
+import { fileExists, readTextFile } from './file-changes';
 import { prompt } from 'prompts';
-import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import dedent from 'dedent';
 
+/**
+ * Extracts the config file path passed to `--config-file` in a script, if any
+ */
+export const getConfigFileFromScript = (script: string): string | undefined =>
+    script.match(/--config-file\s+['"]?([^'"\s]+)['"]?/)?.[1];
+
+/**
+ * Finds the scripts in a package.json that run Chromatic
+ */
+export const getChromaticScripts = (packageJson: any): [string, string][] =>
+    Object.entries(packageJson.scripts || {}).filter(
+        (entry): entry is [string, string] => entry[0].toLowerCase().includes('chromatic') && typeof entry[1] === 'string',
+    );
+
+/**
+ * Points every Chromatic script at the config file without prompting, adding a script when
+ * there is none. Returns the updated package.json, or null when nothing needed to change.
+ */
+export const applyConfigFileToScripts = (packageJson: any, relativeConfigPath: string, scriptName = 'chromatic'): any => {
+    const configFlag = `--config-file '${relativeConfigPath}'`;
+    const chromaticScripts = getChromaticScripts(packageJson);
+    const scripts: Record<string, string> = { ...packageJson.scripts };
+
+    if (chromaticScripts.length === 0) {
+        scripts[scriptName] = `chromatic ${configFlag}`;
+    }
+
+    for (const [name, script] of chromaticScripts) {
+        const currentConfigPath = getConfigFileFromScript(script);
+        if (currentConfigPath === undefined) {
+            scripts[name] = `${script} ${configFlag}`;
+        } else if (currentConfigPath !== relativeConfigPath) {
+            scripts[name] = script.replace(/--config-file\s+['"]?[^'"\s]+['"]?/, configFlag);
+        }
+    }
+
+    const changed = Object.keys(scripts).some((name) => scripts[name] !== packageJson.scripts?.[name]);
+    return changed ? { ...packageJson, scripts } : null;
+};
+
 /**
  * Updates the package.json script to use the Chromatic config file
  */
-export const updatePackageJsonScript = async (configPath: string, meta: ProjectMeta): Promise<{ path: string; content: any } | null> => {
+export const updatePackageJsonScript = async (
+    configPath: string,
+    meta: ProjectMeta,
+    options: CliOptions,
+): Promise<{ path: string; content: any } | null> => {
     const packageJsonPath = path.join(meta.storybookBaseDir, 'package.json');
-    if (!fs.existsSync(packageJsonPath)) {
+    if (!fileExists(packageJsonPath)) {
         displayMessage(
             'No package.json found in the project directory.',
             { title: '🚨 Warning', borderColor: 'yellow' }
@@ -19,13 +64,12 @@ export const updatePackageJsonScript = async (configPath: string, meta: ProjectM
         return null;
     }
 
-    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    const packageJson = JSON.parse(readTextFile(packageJsonPath));
     const relativeConfigPath = path.relative(meta.storybookBaseDir, configPath);
     const configFlag = `--config-file '${relativeConfigPath}'`;
 
     // Find existing Chromatic scripts
-    const chromaticScripts = Object.entries(packageJson.scripts || {})
-        .filter(([name]) => name.toLowerCase().includes('chromatic'));
+    const chromaticScripts = getChromaticScripts(packageJson);
 
     if (chromaticScripts.length > 0) {
         displayMessage(
@@ -47,7 +91,7 @@ export const updatePackageJsonScript = async (configPath: string, meta: ProjectM
                 hasChanges = true;
             } else {
                 // Script has config file flag - check if it needs updating
-                const currentConfigPath = script.match(/--config-file\s+['"]?([^'"\s]+)['"]?/)?.[1];
+                const currentConfigPath = getConfigFileFromScript(script);
                 if (currentConfigPath !== relativeConfigPath) {
                     needsUpdate = true;
                     displayMessage(
@@ -77,35 +121,30 @@ export const updatePackageJsonScript = async (configPath: string, meta: ProjectM
 
         // If scripts need updating, ask the user
         if (needsUpdate) {
-            try {
-                const { updateExistingScripts } = await prompt({
-                    type: 'confirm',
-                    name: 'updateExistingScripts',
-                    message: 'Would you like to update the existing scripts with the new config file path? (your other Chromatic options will be retained)',
-                    initial: false,
-                });
+            const updateExistingScripts = await confirm(
+                options,
+                'Would you like to update the existing scripts with the new config file path? (your other Chromatic options will be retained)',
+                false,
+            );
 
-                if (updateExistingScripts) {
-                    // Update scripts that have different config paths
-                    for (const [name, script] of chromaticScripts) {
-                        if (typeof script !== 'string') continue;
-                        
-                        const hasConfigFlag = script.includes('--config-file');
-                        if (hasConfigFlag) {
-                            const currentConfigPath = script.match(/--config-file\s+['"]?([^'"\s]+)['"]?/)?.[1];
-                            if (currentConfigPath !== relativeConfigPath) {
-                                // Replace the existing config flag with the new one
-                                packageJson.scripts[name] = script.replace(
-                                    /--config-file\s+['"]?[^'"\s]+['"]?/,
-                                    configFlag
-                                );
-                                hasChanges = true;
-                            }
+            if (updateExistingScripts) {
+                // Update scripts that have different config paths
+                for (const [name, script] of chromaticScripts) {
+                    if (typeof script !== 'string') continue;
+                    
+                    const hasConfigFlag = script.includes('--config-file');
+                    if (hasConfigFlag) {
+                        const currentConfigPath = getConfigFileFromScript(script);
+                        if (currentConfigPath !== relativeConfigPath) {
+                            // Replace the existing config flag with the new one
+                            packageJson.scripts[name] = script.replace(
+                                /--config-file\s+['"]?[^'"\s]+['"]?/,
+                                configFlag
+                            );
+                            hasChanges = true;
                         }
                     }
                 }
-            } catch (error) {
-                // Fallback: don't update if prompt fails
             }
         }
 
@@ -117,20 +156,21 @@ export const updatePackageJsonScript = async (configPath: string, meta: ProjectM
         }
     } else {
         // No Chromatic scripts found - add one
-        const { addScript } = await prompt({
-            type: 'confirm',
-            name: 'addScript',
-            message: 'It looks like your project doesn\'t have a Chromatic script. Would you like to add one to your package.json?',
-            initial: true,
-        });
+        const addScript = await confirm(
+            options,
+            'It looks like your project doesn\'t have a Chromatic script. Would you like to add one to your package.json?',
+        );
 
         if (addScript) {
-            const { scriptName } = await prompt({
-                type: 'text',
-                name: 'scriptName',
-                message: 'What would you like to name the script?',
-                initial: 'chromatic',
-            });
+            // Fall back to the prompt's default name when running non-interactively
+            const { scriptName } = options.scriptName || !isInteractive(options)
+                ? { scriptName: options.scriptName || 'chromatic' }
+                : await prompt({
+                    type: 'text',
+                    name: 'scriptName',
+                    message: 'What would you like to name the script?',
+                    initial: 'chromatic',
+                });
 
             if (!packageJson.scripts) {
                 packageJson.scripts = {};
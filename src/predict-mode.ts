@@ -0,0 +1,272 @@
+import { glob } from 'fast-glob';
+import chalk from 'chalk';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { loadStorybookModules } from './storybook-resolver';
+import { displayMessage, printJson } from './utils';
+import { ChromaticConfig, CliOptions, DependencyGraph, FullRebuildTrigger, PredictReport } from './types';
+import { CliOptionsError } from './errors';
+import { createIndexedModuleResolver } from './file-index';
+import { buildDependencyGraph } from './dependency-graph';
+import { buildImpactReport, findProjectEntryFiles } from './impact-mode';
+import { buildProjectMeta, selectStorybookProject } from './project-detection';
+import { findDefaultChromaticConfig } from './config-management';
+import { getChangedFiles, getRepositoryRoot } from './git';
+
+/**
+ * Files whose changes can affect every dependency, so Chromatic retests every story
+ */
+const PACKAGE_FILES = [
+    'package.json',
+    'package-lock.json',
+    'npm-shrinkwrap.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'bun.lockb',
+    'bun.lock',
+];
+
+/**
+ * Number of affected story files listed in text output
+ */
+const MAX_LISTED_STORIES = 20;
+
+const toRelative = (file: string) => path.relative(process.cwd(), file);
+
+const isInside = (dir: string, file: string) => !path.relative(dir, file).startsWith('..');
+
+/**
+ * Returns the first `externals` pattern matching a file, if any. Patterns are matched against
+ * the path relative to the repository root, with or without a leading `./`.
+ */
+const matchExternals = (externals: string[], repositoryPath: string): string | undefined =>
+    externals.find((pattern) => minimatch(repositoryPath, pattern.replace(/^\.\//, ''), { dot: true }));
+
+/**
+ * Estimates what Chromatic would retest for a set of changed files, given the project's
+ * dependency graph and Chromatic config. Changes to package manifests and lockfiles, to the
+ * Storybook config directory or anything a preview file imports, to bundled files outside
+ * `storybookBaseDir`, and to files matched by `externals` all retest every story.
+ */
+export const buildPredictReport = ({
+    project,
+    base,
+    config,
+    configFile,
+    storybookBaseDir,
+    repositoryRoot,
+    storyFiles,
+    previewFiles,
+    graph,
+    changedFiles,
+}: {
+    project: string;
+    base: string;
+    config: ChromaticConfig;
+    configFile: string | null;
+    storybookBaseDir: string;
+    repositoryRoot: string;
+    storyFiles: string[];
+    previewFiles: string[];
+    graph: DependencyGraph;
+    changedFiles: string[];
+}): PredictReport => {
+    const impact = buildImpactReport(project, storyFiles, previewFiles, graph, changedFiles);
+    const baseDir = path.resolve(repositoryRoot, storybookBaseDir);
+    const fullRebuildTriggers: FullRebuildTrigger[] = [];
+    const externalsMatches: PredictReport['externalsMatches'] = [];
+
+    changedFiles.forEach((changedFile, index) => {
+        const file = toRelative(changedFile);
+
+        if (PACKAGE_FILES.includes(path.basename(changedFile))) {
+            fullRebuildTriggers.push({ file, reason: 'Dependencies may have changed' });
+        }
+
+        const { fullRebuildReason } = impact.files[index];
+        if (fullRebuildReason) {
+            fullRebuildTriggers.push({ file, reason: `Changed because ${fullRebuildReason}` });
+        }
+
+        // TurboSnap matches bundled files to git changes relative to storybookBaseDir
+        if (graph.has(path.resolve(changedFile)) && !isInside(baseDir, changedFile)) {
+            fullRebuildTriggers.push({
+                file,
+                reason: `Bundled by Storybook but outside storybookBaseDir (${storybookBaseDir})`,
+            });
+        }
+
+        const repositoryPath = path.relative(repositoryRoot, changedFile).split(path.sep).join('/');
+        const pattern = matchExternals(config.externals ?? [], repositoryPath);
+        if (pattern) {
+            externalsMatches.push({ file, pattern });
+        }
+    });
+
+    const fullRebuild = fullRebuildTriggers.length > 0 || externalsMatches.length > 0;
+    const affectedStoryFiles = fullRebuild ? storyFiles.map(toRelative).sort() : impact.affectedStoryFiles;
+
+    return {
+        mode: 'predict',
+        project,
+        base,
+        configFile,
+        storybookBaseDir,
+        outcome: fullRebuild ? 'full-rebuild' : affectedStoryFiles.length > 0 ? 'partial' : 'no-changes',
+        changedFiles: changedFiles.map(toRelative),
+        totalStoryFiles: storyFiles.length,
+        affectedStoryFiles,
+        externalsMatches,
+        fullRebuildTriggers,
+    };
+};
+
+/**
+ * Prints the prediction
+ */
+const displayPrediction = (report: PredictReport) => {
+    displayMessage(
+        `${chalk.cyan(report.changedFiles.length)} ${
+            report.changedFiles.length === 1 ? 'file' : 'files'
+        } changed since ${chalk.cyan(report.base)}${
+            report.configFile ? `, checked against ${chalk.cyan(report.configFile)}` : ''
+        }.`,
+        { title: '🔀 Changes', borderColor: 'magenta' },
+    );
+
+    if (report.fullRebuildTriggers.length > 0) {
+        displayMessage(
+            report.fullRebuildTriggers
+                .map((trigger) => `🚨 ${chalk.cyan(trigger.file)}\n   ${trigger.reason}`)
+                .join('\n'),
+            { title: '💥 Full Rebuild Triggers', borderColor: 'red' },
+        );
+    }
+
+    if (report.externalsMatches.length > 0) {
+        displayMessage(
+            `Changes to files matched by ${chalk.cyan('externals')} retest every story:\n\n${report.externalsMatches
+                .map((match) => `- ${chalk.cyan(match.file)} ${chalk.dim(`(${match.pattern})`)}`)
+                .join('\n')}`,
+            { title: '📦 Externals', borderColor: 'red' },
+        );
+    }
+
+    if (report.outcome === 'partial') {
+        const listed = report.affectedStoryFiles.slice(0, MAX_LISTED_STORIES);
+        displayMessage(
+            `${listed.map((file) => `- ${chalk.cyan(file)}`).join('\n')}${
+                report.affectedStoryFiles.length > listed.length
+                    ? `\n...and ${
+                          report.affectedStoryFiles.length - listed.length
+                      } more (use --format json for the full list)`
+                    : ''
+            }`,
+            { title: '📚 Affected Story Files', borderColor: 'yellow' },
+        );
+    }
+
+    const { outcome, totalStoryFiles, affectedStoryFiles } = report;
+    displayMessage(
+        outcome === 'full-rebuild'
+            ? `🚨 Full rebuild: all ${chalk.red(totalStoryFiles)} ${
+                  totalStoryFiles === 1 ? 'story file' : 'story files'
+              } would be retested.`
+            : outcome === 'partial'
+            ? `${chalk.yellow(affectedStoryFiles.length)} of ${chalk.cyan(
+                  totalStoryFiles,
+              )} story files would be retested.`
+            : '✅ No story files would be retested.',
+        {
+            title: '🔮 Prediction',
+            borderColor: outcome === 'full-rebuild' ? 'red' : outcome === 'partial' ? 'yellow' : 'green',
+        },
+    );
+
+    displayMessage(
+        'This is an estimate based on your local dependency graph. Chromatic decides what to retest from the build it receives, so results may differ.',
+        { title: 'ℹ️ Note', borderColor: 'blue' },
+    );
+};
+
+/**
+ * Predict mode for estimating what TurboSnap would retest for the changes since a git ref
+ */
+export const predictMode = async (options: CliOptions) => {
+    const isJson = options.format === 'json';
+
+    const { base } = options;
+    if (!base) {
+        throw new CliOptionsError('Pass the git ref to compare against, e.g. `predict --base main`.');
+    }
+
+    if (!isJson) {
+        displayMessage(`Predicting what TurboSnap would retest for the changes since ${chalk.cyan(base)}`, {
+            title: '🔮 Predict Mode',
+            borderColor: 'magenta',
+        });
+    }
+
+    const changedFiles = getChangedFiles(base);
+    const repositoryRoot = getRepositoryRoot();
+
+    const storybookDirs = await glob('**/.storybook', {
+        onlyDirectories: true,
+        ignore: ['**/node_modules/**'],
+    });
+
+    if (storybookDirs.length === 0) {
+        const message =
+            'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.';
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title: '❌ No Storybook Config Found', borderColor: 'yellow' });
+        }
+        process.exit(1);
+    }
+
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
+        message: 'Which Storybook project would you like to predict?',
+        describe: (dir) => `Predict the TurboSnap outcome for ${dir}`,
+        exitDescription: 'Exit the predictor',
+    });
+
+    if (selectedProject === 'exit') {
+        process.exit(0);
+    }
+
+    const { JsPackageManagerFactory, findConfigFile, readConfig } = loadStorybookModules();
+    const manager = JsPackageManagerFactory.getPackageManager() as any;
+    const mainConfig = await readConfig(findConfigFile('main', selectedProject));
+    const meta = await buildProjectMeta(manager, mainConfig, selectedProject, '');
+
+    // Predicting never prompts, so it can run unattended in CI
+    const existingConfig = findDefaultChromaticConfig(selectedProject, meta);
+
+    const { storyFiles, previewFiles } = await findProjectEntryFiles(selectedProject);
+    const graph = await buildDependencyGraph([...storyFiles, ...previewFiles], await createIndexedModuleResolver());
+
+    const report = buildPredictReport({
+        project: selectedProject,
+        base,
+        config: existingConfig?.config ?? {},
+        configFile: existingConfig ? toRelative(existingConfig.path) : null,
+        // Without a config, Chromatic uses the detected base directory, which is relative to the working directory
+        storybookBaseDir:
+            existingConfig?.config.storybookBaseDir ??
+            (path.relative(repositoryRoot, path.resolve(meta.storybookBaseDir)) || '.'),
+        repositoryRoot,
+        storyFiles,
+        previewFiles,
+        graph,
+        changedFiles,
+    });
+
+    if (isJson) {
+        printJson(report);
+    } else {
+        displayPrediction(report);
+    }
+    process.exitCode = 0;
+};
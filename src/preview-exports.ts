@@ -0,0 +1,205 @@
+import type { types as t } from 'storybook/internal/babel';
+import { classifyNode, getNodeSource, getPropertyName, parseSource, walkAst } from './import-parser';
+import { PreviewExportEntry, PreviewExportKind } from './types';
+
+/**
+ * Preview annotations listed in the breakdown, and the kind of entry each one holds
+ */
+const PREVIEW_FIELDS = new Map<string, PreviewExportKind>([
+    ['decorators', 'decorator'],
+    ['loaders', 'loader'],
+    ['globalTypes', 'globalType'],
+    ['parameters', 'parameter'],
+]);
+
+/**
+ * A preview export entry before the files its imports reach are known
+ */
+export type PreviewExportDeclaration = Omit<PreviewExportEntry, 'reaches' | 'reachableFiles'>;
+
+/**
+ * Strips TypeScript wrappers like `as Preview` and `satisfies Preview`
+ */
+const unwrapExpression = (node: t.Node | null | undefined): t.Node | undefined => {
+    switch (node?.type) {
+        case 'TSAsExpression':
+        case 'TSSatisfiesExpression':
+        case 'TSNonNullExpression':
+        case 'ParenthesizedExpression':
+            return unwrapExpression(node.expression);
+        default:
+            return node ?? undefined;
+    }
+};
+
+const getKeyName = (property: t.ObjectProperty | t.ObjectMethod, code: string): string =>
+    getPropertyName(property.key) ?? getNodeSource(code, property.key);
+
+/**
+ * Names an entry the way it's written: `withTheme`, `withThemeByClassName()`, or `inline` for
+ * functions written in place
+ */
+const describeEntry = (node: t.Node, code: string): string => {
+    const expression = unwrapExpression(node);
+    switch (expression?.type) {
+        case 'Identifier':
+            return expression.name;
+        case 'SpreadElement':
+            return `...${describeEntry(expression.argument, code)}`;
+        case 'CallExpression':
+            return `${getNodeSource(code, expression.callee)}()`;
+        case 'MemberExpression':
+            return getNodeSource(code, expression);
+        case 'FunctionExpression':
+        case 'ClassExpression':
+            return expression.id?.name ?? 'inline';
+        default:
+            return 'inline';
+    }
+};
+
+/**
+ * Breaks a preview file's decorators, loaders, `globalTypes` and parameters down into entries,
+ * each with the imports it depends on. Both named exports like `export const decorators` and the
+ * default export, including `definePreview({ ... })`, are read. Identifiers are followed through
+ * the file's top-level functions and variables, so a decorator declared above the export still
+ * lists the imports its body uses. Returns no entries for files that can't be parsed.
+ */
+export const findPreviewExports = (code: string, filePath: string): PreviewExportDeclaration[] => {
+    let program: t.Program;
+    try {
+        program = parseSource(code, filePath).program;
+    } catch (error) {
+        return [];
+    }
+
+    // Local names bound by imports, and the top-level declarations entries can refer to
+    const importedNames = new Map<string, string>();
+    const declarations = new Map<string, t.Node>();
+    program.body.forEach((statement) => {
+        const declaration =
+            (statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration') &&
+            statement.declaration
+                ? statement.declaration
+                : statement;
+        if (declaration.type === 'ImportDeclaration' && declaration.importKind !== 'type') {
+            declaration.specifiers
+                .filter((specifier) => specifier.type !== 'ImportSpecifier' || specifier.importKind !== 'type')
+                .forEach((specifier) => importedNames.set(specifier.local.name, declaration.source.value));
+        } else if (declaration.type === 'VariableDeclaration') {
+            declaration.declarations.forEach((declarator) => {
+                if (declarator.id.type === 'Identifier' && declarator.init) {
+                    declarations.set(declarator.id.name, declarator.init);
+                }
+            });
+        } else if (
+            (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') &&
+            declaration.id
+        ) {
+            declarations.set(declaration.id.name, declaration);
+        }
+    });
+
+    const resolveLocal = (node: t.Node | null | undefined): t.Node | undefined => {
+        const expression = unwrapExpression(node);
+        return expression?.type === 'Identifier' && declarations.has(expression.name)
+            ? unwrapExpression(declarations.get(expression.name))
+            : expression;
+    };
+
+    /**
+     * Lists the import sources a node uses, from the imports it refers to and the `import()` and
+     * `require()` calls in its body, following the top-level declarations it refers to
+     */
+    const collectImports = (node: t.Node, seen = new Set<string>()): string[] => {
+        const sources = new Set<string>();
+        const ignored = new WeakSet<t.Node>();
+        walkAst(node, (child) => {
+            const loaded = classifyNode(child, code, filePath);
+            if (loaded?.kind === 'dynamic-literal' || loaded?.kind === 'require') {
+                sources.add(loaded.source);
+            }
+
+            // Property names like `theme` in `{ theme: light }` aren't references
+            if ((child.type === 'ObjectProperty' || child.type === 'ObjectMethod') && !child.computed) {
+                ignored.add(child.key);
+            } else if (child.type === 'MemberExpression' && !child.computed) {
+                ignored.add(child.property);
+            } else if (child.type === 'JSXAttribute') {
+                ignored.add(child.name);
+            }
+
+            if ((child.type !== 'Identifier' && child.type !== 'JSXIdentifier') || ignored.has(child)) {
+                return;
+            }
+            const declaration = declarations.get(child.name);
+            if (importedNames.has(child.name)) {
+                sources.add(importedNames.get(child.name)!);
+            } else if (declaration && !seen.has(child.name)) {
+                seen.add(child.name);
+                collectImports(declaration, seen).forEach((source) => sources.add(source));
+            }
+        });
+        return [...sources];
+    };
+
+    // Each annotation's value, from named exports and the default export
+    const fields: { field: string; node: t.Node }[] = [];
+    program.body.forEach((statement) => {
+        if (statement.type === 'ExportNamedDeclaration' && statement.declaration?.type === 'VariableDeclaration') {
+            statement.declaration.declarations.forEach((declarator) => {
+                if (declarator.id.type === 'Identifier' && PREVIEW_FIELDS.has(declarator.id.name) && declarator.init) {
+                    fields.push({ field: declarator.id.name, node: declarator.init });
+                }
+            });
+        } else if (statement.type === 'ExportNamedDeclaration' && !statement.source) {
+            statement.specifiers.forEach((specifier) => {
+                const exported = getPropertyName(specifier.exported);
+                if (specifier.type === 'ExportSpecifier' && exported && PREVIEW_FIELDS.has(exported)) {
+                    fields.push({ field: exported, node: specifier.local });
+                }
+            });
+        } else if (statement.type === 'ExportDefaultDeclaration') {
+            let config = resolveLocal(statement.declaration);
+            if (config?.type === 'CallExpression') {
+                config = resolveLocal(config.arguments[0]);
+            }
+            if (config?.type === 'ObjectExpression') {
+                config.properties.forEach((property) => {
+                    if (property.type === 'ObjectProperty' && PREVIEW_FIELDS.has(getKeyName(property, code))) {
+                        fields.push({ field: getKeyName(property, code), node: property.value });
+                    }
+                });
+            }
+        }
+    });
+
+    return fields.flatMap(({ field, node }) => {
+        const kind = PREVIEW_FIELDS.get(field)!;
+        const value = resolveLocal(node);
+        const items: { name: string; node: t.Node }[] =
+            value?.type === 'ArrayExpression'
+                ? value.elements
+                      .flatMap((element) => (element ? [element] : []))
+                      .map((element) => ({ name: describeEntry(element, code), node: element }))
+                : value?.type === 'ObjectExpression'
+                ? value.properties.map((property) => ({
+                      name:
+                          property.type === 'SpreadElement'
+                              ? describeEntry(property, code)
+                              : getKeyName(property, code),
+                      node: property,
+                  }))
+                : value
+                ? [{ name: describeEntry(value, code), node: value }]
+                : [];
+
+        return items.map((item, index) => ({
+            kind,
+            index: index + 1,
+            name: item.name,
+            line: item.node.loc!.start.line,
+            imports: collectImports(item.node),
+        }));
+    });
+};
@@ -1,99 +1,392 @@
 import { glob } from 'fast-glob';
-import { prompt } from 'prompts';
 import chalk from 'chalk';
 import boxen from 'boxen';
 import dedent from 'dedent';
 import fs from 'fs';
 import path from 'path';
-import { displayMessage } from './utils';
+import { describeContextFilter, displayMessage, displayParseErrors, findPackageDir, printJson } from './utils';
+import { AnalysisCache, openAnalysisCache } from './analysis-cache';
+import {
+    CliOptions,
+    GlobalFileKind,
+    GlobalHtmlAnalysis,
+    ImportReference,
+    PreviewFileAnalysis,
+    PreviewExportEntry,
+    PreviewExportKind,
+    PreviewImportSubtree,
+    PreviewReport,
+    PreviewWorkspacePackage,
+} from './types';
+import { buildDependencyGraph, collectDependencies } from './dependency-graph';
+import { createIndexedModuleResolver } from './file-index';
+import { ModuleResolver } from './module-resolver';
+import { buildPreviewSarif, writeSarifReport } from './sarif';
+import { selectStorybookProject } from './project-detection';
+import { detectWorkspace } from './workspace-detection';
+import { analyzeGlobalHtmlFiles, findGlobalFiles, listGlobalScripts } from './global-files';
+import { findPreviewExports } from './preview-exports';
 
-const IMPORT_THRESHOLD = 10; // Number of imports that could trigger fallback mode
+export const IMPORT_THRESHOLD = 10; // Number of imports that could trigger fallback mode
 const SHARED_WRAPPER_KEYWORDS = ['wrapper', 'decorator', 'theme', 'provider'];
 
 /**
- * Analyzes a preview file for potential issues
+ * Global files whose decorators and providers wrap every story. Manager files build Storybook's
+ * own UI instead, so the shared wrapper and monorepo advice doesn't apply to them.
  */
-const analyzePreviewFile = async (filePath: string, initialRootDir: string): Promise<{
-    totalImports: number;
-    hasSharedWrappers: boolean;
-    sharedWrapperImports: string[];
-    staticImports: string[];
-    dynamicImports: string[];
-    isMonorepo: boolean;
-    file: string;
-}> => {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const staticImports: string[] = [];
-    const dynamicImports: string[] = [];
-    const sharedWrapperImports: string[] = [];
-
-    // Match static imports (import ... from ...)
-    const staticImportRegex = /import\s+(?:{[^}]*}|[^;]+)\s+from\s+['"]([^'"]+)['"]/g;
-    let match;
-    while ((match = staticImportRegex.exec(content)) !== null) {
-        staticImports.push(match[1]);
-    }
+const STORY_WRAPPING_KINDS: ReadonlySet<GlobalFileKind> = new Set(['preview', 'preview-annotation']);
+const MAX_HEAVIEST_IMPORTS = 5;
 
-    // Match dynamic imports using import(), require(), or await import() syntax
-    // This captures the module path from expressions like:
-    // import('./foo'), require('./foo'), or await import('./foo')
-    const dynamicImportRegex = /(?:import\(|require\(|await\s+import\()\s*['"]([^'"]+)['"]/g;
-    while ((match = dynamicImportRegex.exec(content)) !== null) {
-        dynamicImports.push(match[1]);
+const readPackageName = (packageDir: string): string | undefined => {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8')).name;
+    } catch (error) {
+        return undefined;
     }
+};
+
+/**
+ * Groups the files a preview reaches by the workspace package they belong to, leaving out the
+ * preview's own package and files outside any package below the repository root
+ */
+const findWorkspacePackages = (
+    previewFile: string,
+    reachable: string[],
+    subtrees: { source: string; files: Set<string> }[],
+    rootDir: string,
+): PreviewWorkspacePackage[] => {
+    const ownPackageDir = findPackageDir(previewFile);
+    const repositoryRoot = detectWorkspace(rootDir).rootDir;
+    const packages = new Map<string, string[]>();
+    reachable.forEach((file) => {
+        const packageDir = findPackageDir(file);
+        if (packageDir && packageDir !== ownPackageDir && packageDir !== repositoryRoot) {
+            packages.set(packageDir, [...(packages.get(packageDir) ?? []), file]);
+        }
+    });
+
+    return [...packages]
+        .map(([packageDir, files]) => ({
+            packageName: readPackageName(packageDir) ?? path.basename(packageDir),
+            directory: path.relative(rootDir, packageDir),
+            importedThrough: subtrees.find((subtree) => files.some((file) => subtree.files.has(file)))?.source,
+            files: files.map((file) => path.relative(rootDir, file)).sort(),
+        }))
+        .sort((a, b) => b.files.length - a.files.length || a.packageName.localeCompare(b.packageName));
+};
+
+/**
+ * Analyzes a preview file for potential issues. Besides its own imports, the preview's whole
+ * dependency tree is followed, since a change to any file in it retests every story. Manager
+ * files and preview annotations are analyzed the same way, passing their `kind`, except that
+ * manager files aren't checked for shared wrappers, since they don't wrap stories.
+ */
+export const analyzePreviewFile = async (
+    filePath: string,
+    initialRootDir: string,
+    {
+        cache,
+        resolver,
+        kind = 'preview',
+    }: { cache?: AnalysisCache; resolver?: ModuleResolver; kind?: GlobalFileKind } = {},
+): Promise<PreviewFileAnalysis> => {
+    const previewFile = path.resolve(filePath);
+    const rootDir = path.resolve(initialRootDir);
+    const graph = await buildDependencyGraph([previewFile], resolver ?? (await createIndexedModuleResolver()), {
+        cache,
+    });
+    const { staticImports, dynamicImports, parseError, resolvedImports } = graph.get(previewFile)!;
+    const sharedWrapperImports: ImportReference[] = [];
 
     // Check for imports that may be shared wrappers or theme providers
     // This looks for imports containing keywords like 'wrapper', 'decorator', 'theme', 'provider'
     // These are common patterns that could indicate shared UI context providers or decorators
     // that may need special handling in preview.js
-    [...staticImports, ...dynamicImports].forEach(imp => {
-        if (SHARED_WRAPPER_KEYWORDS.some(keyword => 
-            imp.toLowerCase().includes(keyword.toLowerCase())
-        )) {
-            sharedWrapperImports.push(imp);
-        }
-    });
-
-    // Check if this is in a monorepo by looking for package.json in parent directories
-    const isMonorepo = (() => {
-        let currentDir = initialRootDir;
-        const packageJsonPath = path.join(currentDir, 'package.json');
-        console.log(`Checking for package.json at: ${packageJsonPath}`);
-        
-        if (fs.existsSync(packageJsonPath)) {
-            try {
-                const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-                console.log(`Found package.json with workspaces:`, packageJson.workspaces);
-                return packageJson.workspaces !== undefined;
-            } catch (error) {
-                console.error(`Error reading package.json at ${packageJsonPath}:`, error);
+    if (STORY_WRAPPING_KINDS.has(kind)) {
+        [...staticImports, ...dynamicImports].forEach(imp => {
+            if (SHARED_WRAPPER_KEYWORDS.some(keyword => 
+                imp.source.toLowerCase().includes(keyword.toLowerCase())
+            )) {
+                sharedWrapperImports.push(imp);
             }
-        }
-        return false;
-    })();
+        });
+    }
+
+    const isMonorepo = detectWorkspace(initialRootDir).isMonorepo;
+    const totalImports = staticImports.length + dynamicImports.length;
+
+    // Measure what each direct import pulls in; subtrees can overlap when imports share files
+    const reachable = collectDependencies(graph, previewFile);
+    const subtrees = Object.entries(resolvedImports).map(([source, file]) => ({
+        source,
+        file,
+        files: new Set([file, ...collectDependencies(graph, file)]),
+    }));
+    const heaviestImports: PreviewImportSubtree[] = subtrees
+        .map(({ source, file, files }) => ({
+            source,
+            file: path.relative(rootDir, file),
+            reachableFiles: files.size,
+        }))
+        .sort((a, b) => b.reachableFiles - a.reachableFiles)
+        .slice(0, MAX_HEAVIEST_IMPORTS);
+
+    // Attribute each decorator, loader, global type and parameter the files its imports pull in
+    const subtreesBySource = new Map(subtrees.map((subtree) => [subtree.source, subtree]));
+    const exports: PreviewExportEntry[] = findPreviewExports(fs.readFileSync(previewFile, 'utf-8'), previewFile).map(
+        (entry) => {
+            const entrySubtrees = entry.imports.flatMap((source) => subtreesBySource.get(source) ?? []);
+            const files = new Set(entrySubtrees.flatMap((subtree) => [...subtree.files]));
+            return {
+                ...entry,
+                // An index file stands for its whole directory
+                reaches: entrySubtrees.map(({ file }) =>
+                    path.basename(file).startsWith('index.')
+                        ? `${path.relative(rootDir, path.dirname(file))}/**`
+                        : path.relative(rootDir, file),
+                ),
+                reachableFiles: files.size,
+            };
+        },
+    );
 
     return {
-        totalImports: staticImports.length + dynamicImports.length,
+        file: path.relative(initialRootDir, filePath),
+        kind,
+        totalImports,
+        exceedsImportThreshold: totalImports > IMPORT_THRESHOLD,
         hasSharedWrappers: sharedWrapperImports.length > 0,
         sharedWrapperImports,
         staticImports,
         dynamicImports,
         isMonorepo,
-        file: path.basename(filePath)
+        reachableFiles: reachable.length,
+        heaviestImports,
+        workspacePackages: findWorkspacePackages(previewFile, reachable, subtrees, rootDir),
+        exports,
+        ...(parseError && { parseError }),
     };
 };
 
+/**
+ * Builds the structured report for a project's analyzed preview files and preview HTML
+ */
+export const buildPreviewReport = (
+    project: string,
+    results: PreviewFileAnalysis[],
+    rootDir: string,
+    htmlFiles: GlobalHtmlAnalysis[] = [],
+): PreviewReport => ({
+    mode: 'preview',
+    project,
+    isMonorepo: detectWorkspace(rootDir).isMonorepo,
+    importThreshold: IMPORT_THRESHOLD,
+    files: results,
+    htmlFiles,
+});
+
+/**
+ * How each kind of global file is named in the report
+ */
+const GLOBAL_FILE_LABELS: Record<GlobalFileKind, string> = {
+    preview: 'preview file',
+    manager: 'manager file',
+    'preview-annotation': 'preview annotation from main config',
+};
+
+/**
+ * Shows what a preview HTML file loads, and the `externals` entries that would retest every
+ * story when the local files among them change
+ */
+const displayHtmlAnalysis = (analysis: GlobalHtmlAnalysis) => {
+    const remote = analysis.references.filter((reference) => reference.remote);
+    const missing = analysis.references.filter((reference) => !reference.remote && !reference.file);
+    const sections = [
+        analysis.references.length > 0
+            ? `Loaded before every story:\n${analysis.references
+                  .map(
+                      (reference) =>
+                          `- ${reference.kind} ${chalk.cyan(reference.url)}${
+                              reference.file ? ` → ${reference.file}` : ''
+                          } ${chalk.dim(`(line ${reference.line})`)}`,
+                  )
+                  .join('\n')}`
+            : 'No stylesheets, scripts or fonts referenced. A change to the file itself retests every story.',
+    ];
+
+    if (analysis.suggestedExternals.length > 0) {
+        sections.push(
+            `💡 These files are served from static directories, so TurboSnap can't see when they change.\nAdd them to externals in your Chromatic config to retest every story when they do:\n\n${JSON.stringify(
+                { externals: analysis.suggestedExternals },
+                null,
+                4,
+            )}`,
+        );
+    }
+    if (missing.length > 0) {
+        sections.push(
+            `⚠️  Not found in any static directory: ${missing
+                .map((reference) => chalk.cyan(reference.url))
+                .join(', ')}`,
+        );
+    }
+    if (remote.length > 0) {
+        sections.push(
+            `🌐 ${remote.length} ${
+                remote.length === 1 ? 'URL is' : 'URLs are'
+            } loaded from another host. TurboSnap can't see changes to them,\nso pin a version in the URL to keep snapshots stable.`,
+        );
+    }
+
+    displayMessage(sections.join('\n\n'), {
+        title: `🧾 ${analysis.file} (preview HTML)`,
+        borderColor: analysis.suggestedExternals.length > 0 || missing.length > 0 ? 'yellow' : 'green',
+    });
+};
+
+/**
+ * Formats the preview's dependency tree: how many files it reaches, the imports that pull in
+ * the most, and the files it reaches in other workspace packages
+ */
+const formatImportTree = (result: PreviewFileAnalysis): string => {
+    const sections = [
+        `🌳 Reaches ${chalk.yellow(result.reachableFiles)} ${
+            result.reachableFiles === 1 ? 'file' : 'files'
+        }. A change to any of them retests every story.`,
+    ];
+
+    if (result.heaviestImports.length > 0) {
+        sections.push(
+            `Heaviest imports:\n${result.heaviestImports
+                .map(
+                    (subtree) =>
+                        `- ${chalk.cyan(subtree.source)} → ${chalk.yellow(subtree.reachableFiles)} ${
+                            subtree.reachableFiles === 1 ? 'file' : 'files'
+                        }`,
+                )
+                .join('\n')}`,
+        );
+    }
+
+    if (result.workspacePackages.length > 0) {
+        sections.push(
+            `📦 Files in other workspace packages force a full rebuild when they change:\n${result.workspacePackages
+                .map(
+                    (workspacePackage) =>
+                        `- ${chalk.cyan(workspacePackage.packageName)} (${workspacePackage.directory}): ${
+                            workspacePackage.files.length
+                        } ${workspacePackage.files.length === 1 ? 'file' : 'files'}${
+                            workspacePackage.importedThrough ? `, through '${workspacePackage.importedThrough}'` : ''
+                        }`,
+                )
+                .join('\n')}\n\n💡 Import only the stable parts of shared packages here, like themes and global styles, and\nmove the rest into story-level decorators.`,
+        );
+    }
+
+    return boxen(sections.join('\n\n'), {
+        title: '🌳 Import Tree',
+        titleAlignment: 'center',
+        padding: 1,
+        borderColor: result.workspacePackages.length > 0 ? 'yellow' : 'green',
+        borderStyle: 'doubleSingle',
+        margin: { top: 1, bottom: 1, left: 0, right: 0 },
+    });
+};
+
+const EXPORT_LABELS: Record<PreviewExportKind, string> = {
+    decorator: 'Decorators',
+    loader: 'Loaders',
+    globalType: 'Global types',
+    parameter: 'Parameters',
+};
+
+const STORY_LEVEL_ADVICE: Partial<Record<PreviewExportKind, string>> = {
+    decorator: "If only some stories need it, move it to those stories' decorators.",
+    loader: "If only some stories need it, move it to those stories' loaders.",
+    parameter: "If only some stories need it, set it in those stories' parameters.",
+};
+
+/**
+ * Formats the preview's decorators, loaders, global types and parameters with the imports each
+ * one uses, and recommends moving the ones that pull in files from the repository to story level
+ */
+const formatPreviewExports = (result: PreviewFileAnalysis): string => {
+    if (result.exports.length === 0) {
+        return '';
+    }
+
+    const sections = (Object.keys(EXPORT_LABELS) as PreviewExportKind[])
+        .map((kind) => ({ kind, entries: result.exports.filter((entry) => entry.kind === kind) }))
+        .filter(({ entries }) => entries.length > 0)
+        .map(
+            ({ kind, entries }) =>
+                `${EXPORT_LABELS[kind]}:\n${entries
+                    .map(
+                        (entry) =>
+                            `#${entry.index} ${chalk.cyan(entry.name)}${
+                                entry.imports.length > 0 ? ` → ${entry.imports.join(', ')}` : ''
+                            }${
+                                entry.reachableFiles > 0
+                                    ? chalk.yellow(
+                                          ` (${entry.reachableFiles} ${entry.reachableFiles === 1 ? 'file' : 'files'})`,
+                                      )
+                                    : ''
+                            }`,
+                    )
+                    .join('\n')}`,
+        );
+
+    const movable = result.exports
+        .filter((entry) => entry.reachableFiles > 0 && STORY_LEVEL_ADVICE[entry.kind])
+        .sort((a, b) => b.reachableFiles - a.reachableFiles);
+    if (movable.length > 0) {
+        sections.push(
+            `💡 Every change to these files retests every story:\n${movable
+                .map(
+                    (entry) =>
+                        `- ${entry.kind} #${entry.index} (${chalk.cyan(entry.name)}) pulls in ${entry.reaches.join(
+                            ', ',
+                        )} (${entry.reachableFiles} ${entry.reachableFiles === 1 ? 'file' : 'files'}).\n  ${
+                            STORY_LEVEL_ADVICE[entry.kind]
+                        }`,
+                )
+                .join('\n')}`,
+        );
+    }
+
+    return boxen(sections.join('\n\n'), {
+        title: '🧩 Preview Exports',
+        titleAlignment: 'center',
+        padding: 1,
+        borderColor: movable.length > 0 ? 'yellow' : 'green',
+        borderStyle: 'doubleSingle',
+        margin: { top: 1, bottom: 1, left: 0, right: 0 },
+    });
+};
+
 /**
  * Preview mode for analyzing preview files
  */
-export const previewMode = async () => {
+export const previewMode = async (options: CliOptions) => {
     // Store the initial root directory before any directory changes
     const initialRootDir = process.cwd();
-    
-    displayMessage('Analyzing preview files for potential issues', {
-        title: '🔍 Preview Analysis Mode',
-        borderColor: 'magenta'
-    });
+    const isJson = options.format === 'json';
+
+    const fail = (message: string, title: string): never => {
+        if (isJson) {
+            console.error(message);
+        } else {
+            displayMessage(message, { title, borderColor: 'yellow' });
+        }
+        return process.exit(1);
+    };
+
+    if (!isJson) {
+        displayMessage('Analyzing preview files for potential issues', {
+            title: '🔍 Preview Analysis Mode',
+            borderColor: 'magenta'
+        });
+    }
 
     // Find Storybook config directories
     const storybookDirs = await glob('**/.storybook', { 
@@ -102,63 +395,64 @@ export const previewMode = async () => {
     });
 
     if (storybookDirs.length === 0) {
-        displayMessage(
+        fail(
             'No Storybook configuration directories found. Please ensure you are in a Storybook project directory.',
-            { title: '🚨 No Storybook Config Found', borderColor: 'yellow' }
+            '🚨 No Storybook Config Found'
         );
-        process.exit(1);
     }
 
     // Show all found Storybook projects and let user select one
-    displayMessage(
-        `I found ${chalk.cyan(storybookDirs.length)} Storybook ${storybookDirs.length === 1 ? 'project' : 'projects'}.`,
-        { title: '📚 Storybook Projects', borderColor: 'magenta' }
-    );
+    if (!isJson) {
+        displayMessage(
+            `I found ${chalk.cyan(storybookDirs.length)} Storybook ${storybookDirs.length === 1 ? 'project' : 'projects'}.`,
+            { title: '📚 Storybook Projects', borderColor: 'magenta' }
+        );
+    }
 
-    const { selectedProject } = await prompt({
-        type: 'select',
-        name: 'selectedProject',
+    const selectedProject = await selectStorybookProject(storybookDirs, options, {
         message: 'Which Storybook project would you like to analyze?',
-        choices: [
-            ...storybookDirs.map((dir) => ({ 
-                title: dir,
-                value: dir,
-                description: `Analyze preview in ${dir}`
-            })),
-            { 
-                title: 'Exit',
-                value: 'exit',
-                description: 'Exit the analyzer'
-            }
-        ],
+        describe: (dir) => `Analyze preview in ${dir}`,
+        exitDescription: 'Exit the analyzer',
     });
 
     if (selectedProject === 'exit') {
         process.exit(0);
     }
 
-    // Look for preview files in the .storybook directory
-    const previewFiles = await glob('preview.{js,jsx,ts,tsx}', {
-        ignore: ['**/node_modules/**'],
-        cwd: selectedProject
-    });
+    // Look for preview, manager and preview HTML files in the .storybook directory, and preview annotations
+    const globalFiles = await findGlobalFiles(selectedProject);
+    const scripts = listGlobalScripts(globalFiles);
 
-    if (previewFiles.length === 0) {
-        displayMessage(
-            'No preview files found in the selected project\'s .storybook directory.',
-            { title: '🚨 No Preview Found', borderColor: 'yellow' }
-        );
-        process.exit(1);
+    if (scripts.length === 0 && globalFiles.htmlFiles.length === 0) {
+        fail('No preview files found in the selected project\'s .storybook directory.', '🚨 No Preview Found');
     }
 
     // Analyze each preview file
+    const cache = openAnalysisCache({ enabled: !options.noCache, rootDir: initialRootDir });
+    const resolver = await createIndexedModuleResolver();
     const results = await Promise.all(
-        previewFiles.map(async (file) => {
-            const filePath = path.join(selectedProject, file);
-            const analysis = await analyzePreviewFile(filePath, initialRootDir);
-            return { file, ...analysis };
-        })
+        scripts.map(({ file, kind }) => analyzePreviewFile(file, initialRootDir, { cache, resolver, kind }))
     );
+    cache.save();
+
+    const htmlFiles = await analyzeGlobalHtmlFiles(selectedProject, globalFiles.htmlFiles);
+    const report = buildPreviewReport(selectedProject, results, initialRootDir, htmlFiles);
+
+    if (options.sarif) {
+        writeSarifReport(options.sarif, buildPreviewSarif(report));
+        if (!isJson) {
+            displayMessage(`SARIF report written to ${chalk.cyan(options.sarif)}`, {
+                title: '📄 SARIF Report',
+                borderColor: 'green',
+            });
+        }
+    }
+
+    if (isJson) {
+        printJson(report);
+        process.exitCode = 0;
+        return;
+    }
 
     // Display results
     // Results are displayed in nested boxens to make the output more readable
@@ -169,7 +463,9 @@ export const previewMode = async () => {
             dedent`Preview Analysis Results:
             
             ${results.map(result => {
-                const monorepoWarning = result.isMonorepo
+                const label = GLOBAL_FILE_LABELS[result.kind];
+                const wrapsStories = STORY_WRAPPING_KINDS.has(result.kind);
+                const monorepoWarning = result.isMonorepo && wrapsStories
                     ? boxen(
                         dedent`🚨 Monorepo detected - be careful with shared imports in preview files
 
@@ -200,12 +496,12 @@ TurboSnap to fallback and rebuild all stories.
                         }
                     )
                     : '';
-                const importWarning = result.totalImports > IMPORT_THRESHOLD 
+                const importWarning = result.exceedsImportThreshold
                     ? boxen(
                         dedent`🚨 High number of imports (${result.totalImports}) that could trigger fallback mode (full rebuild)
 
 📦 Why this matters:
-TurboSnap treats .storybook/preview.js|ts as a global file that affects all stories.
+TurboSnap treats the ${label} as a global file that affects all stories.
 Any change to a file imported here (or its transitive dependencies) will trigger 
 a full rebuild of all stories — even those that are unrelated.
 
@@ -213,7 +509,7 @@ a full rebuild of all stories — even those that are unrelated.
 will cause all stories to be retested, even when most aren't affected.
 
 💡 Recommendations:
-- Limit your preview file to stable, foundational setup:
+- Limit your ${label} to stable, foundational setup:
   - ThemeProvider
   - GlobalStyles
   - i18n setup
@@ -238,13 +534,15 @@ will cause all stories to be retested, even when most aren't affected.
                         margin: { top: 1, bottom: 1 }
                     });
                 
-                const wrapperWarning = result.hasSharedWrappers
+                const wrapperWarning = !wrapsStories
+                    ? ''
+                    : result.hasSharedWrappers
                     ? boxen(
                         dedent`🚨 Contains shared wrappers/themes:
-                        ${result.sharedWrapperImports.map(imp => `- ${imp}`).join('\n                        ')}
+                        ${result.sharedWrapperImports.map(imp => `- ${imp.source}`).join('\n                        ')}
 
 📦 Why this matters:
-TurboSnap treats .storybook/preview.js|ts as a global file that affects all stories.
+TurboSnap treats the ${label} as a global file that affects all stories.
 Any change to a file imported here (or its transitive dependencies) will trigger 
 a full rebuild of all stories — even those that are unrelated.        
                         
@@ -275,10 +573,10 @@ a full rebuild of all stories — even those that are unrelated.
                 const importTypeWarning = result.dynamicImports.length > 0
                     ? boxen(
                         dedent`🚨 Contains dynamic imports (${result.dynamicImports.length}):
-                        ${result.dynamicImports.map(imp => `- ${imp}`).join('\n                        ')}
+                        ${result.dynamicImports.map(imp => `- ${imp.source}${imp.contextFilter ? ` ${describeContextFilter(imp)}` : ''}`).join('\n                        ')}
                         
 📦 Why this matters:
-TurboSnap analyzes static imports in your preview file to determine which stories are affected by a change. 
+TurboSnap analyzes static imports in your ${label} to determine which stories are affected by a change. 
 Dynamic imports (import() or require() with variables or conditions):
 - Cannot be reliably traced in the build dependency graph
 - May prevent TurboSnap from detecting changes correctly
@@ -286,7 +584,7 @@ Dynamic imports (import() or require() with variables or conditions):
 
 💡 Recommendations:
 - If dynamic behavior is essential, move the logic into story-level decorators 
-  or within the component itself, not the preview file.
+  or within the component itself, not the ${label}.
 - Convert dynamic imports to static imports where possible:
   ❌ const ThemeProvider = require('../themes/default/ThemeProvider');
   ✅ import { ThemeProvider } from '../themes/default/ThemeProvider';`,
@@ -306,10 +604,13 @@ Dynamic imports (import() or require() with variables or conditions):
                         margin: { top: 1, bottom: 1 }
                     });
                 
-                return `${chalk.cyan(result.file)}:
+                return `${chalk.cyan(result.file)} (${label}):
                 Total Imports: ${chalk.yellow(result.totalImports)}
+                Reachable Files: ${chalk.yellow(result.reachableFiles)}
                 ${monorepoWarning}
                 ${importWarning}
+                ${formatImportTree(result)}
+                ${formatPreviewExports(result)}
                 ${wrapperWarning}
                 ${importTypeWarning}
                 `;
@@ -324,5 +625,8 @@ Dynamic imports (import() or require() with variables or conditions):
         ),
     );
 
+    htmlFiles.forEach(displayHtmlAnalysis);
+    displayParseErrors(results);
+
     process.exit(0);
 }; 
\ No newline at end of file
@@ -1,9 +1,13 @@
 import { glob } from 'fast-glob';
 import { prompt } from 'prompts';
-import { ProjectMeta } from './types';
+import { CliOptions, ProjectMeta } from './types';
 import { normalizeManagerName, pluckFrameworkFromRawContents, displayMessage, exitWithMessage } from './utils';
 import { findStaticAssets } from './static-assets';
+import { isInteractive, missingAnswer } from './cli-options';
+import { CliOptionsError } from './errors';
+import { detectWorkspace, listWorkspacePackages } from './workspace-detection';
 import chalk from 'chalk';
+import path from 'path';
 
 /**
  * Finds all Storybook configuration directories in the project
@@ -68,15 +72,79 @@ export const buildProjectMeta = async (
     // adding projectRoot twice to fix linter errors for staticAssets
     const staticAssetsResult = await findStaticAssets(projectRoot, projectRoot);
     const staticAssets = [...staticAssetsResult.projectAssets, ...staticAssetsResult.repoAssets];
+    const workspace = detectWorkspace(projectRoot);
 
     return {
         storybookBaseDir,
         storybookConfigDir: `./${configDir}`,
         storybookBuildDir: `./${mainConfig.getSafeFieldValue(['buildDir']) || 'storybook-static'}`,
         packageManager: normalizeManagerName(packageManager.type),
-        isMonoRepo: packageManager.isStorybookInMonorepo(),
+        isMonoRepo: workspace.isMonorepo,
         framework: frameworkValue,
         ciEnv,
         staticAssets,
+        workspacePackages: listWorkspacePackages(workspace),
     };
 };
+
+/**
+ * Matches a `--project` value against the discovered Storybook config directories.
+ * Both the project directory (`packages/app`) and its config directory (`packages/app/.storybook`) are accepted.
+ */
+const matchStorybookProject = (storybookDirs: string[], project: string): string | undefined => {
+    const wanted = path.normalize(project).replace(/[\\/]+$/, '');
+    return storybookDirs.find((dir) => {
+        const configDir = path.normalize(dir);
+        return configDir === wanted || path.dirname(configDir) === wanted;
+    });
+};
+
+/**
+ * Selects the Storybook project to work with, from `--project` when given, otherwise by prompting.
+ * Resolves to 'exit' when the user chooses to leave.
+ */
+export const selectStorybookProject = async (
+    storybookDirs: string[],
+    options: CliOptions,
+    choice: { message: string; describe: (dir: string) => string; exitDescription: string },
+): Promise<string> => {
+    if (options.project) {
+        const match = matchStorybookProject(storybookDirs, options.project);
+        if (!match) {
+            throw new CliOptionsError(
+                `No Storybook configuration directory found for --project ${
+                    options.project
+                }. Found: ${storybookDirs.join(', ')}`,
+            );
+        }
+        return match;
+    }
+
+    if (!isInteractive(options)) {
+        if (storybookDirs.length === 1) {
+            return storybookDirs[0];
+        }
+        return missingAnswer('--project', `choosing one of ${storybookDirs.length} Storybook projects`);
+    }
+
+    const { selectedProject } = await prompt({
+        type: 'select',
+        name: 'selectedProject',
+        message: choice.message,
+        choices: [
+            ...storybookDirs.map((dir) => ({
+                title: dir,
+                value: dir,
+                description: choice.describe(dir),
+            })),
+            {
+                title: 'Exit',
+                value: 'exit',
+                description: choice.exitDescription,
+            },
+        ],
+    });
+
+    // A cancelled prompt (Ctrl-C) answers with undefined
+    return selectedProject ?? 'exit';
+};
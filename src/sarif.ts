@@ -0,0 +1,272 @@
+import fs from 'fs';
+import path from 'path';
+import { AnalyzeReport, DependencyImportReference, ImportReference, PreviewReport } from './types';
+import { describeContextFilter } from './utils';
+
+/**
+ * Minimal SARIF 2.1.0 types covering the parts of the format this tool emits
+ */
+interface SarifRule {
+    id: string;
+    name: string;
+    shortDescription: { text: string };
+    fullDescription: { text: string };
+    defaultConfiguration: { level: SarifLevel };
+}
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifResult {
+    ruleId: string;
+    level: SarifLevel;
+    message: { text: string };
+    locations: {
+        physicalLocation: {
+            artifactLocation: { uri: string; uriBaseId: string };
+            region: { startLine: number; startColumn: number };
+        };
+    }[];
+}
+
+export interface SarifLog {
+    $schema: string;
+    version: '2.1.0';
+    runs: {
+        tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+        results: SarifResult[];
+    }[];
+}
+
+const rule = (id: string, name: string, shortDescription: string, fullDescription: string, level: SarifLevel) => ({
+    id,
+    name,
+    shortDescription: { text: shortDescription },
+    fullDescription: { text: fullDescription },
+    defaultConfiguration: { level },
+});
+
+/**
+ * Rules reported by the analysis modes
+ */
+const RULES = {
+    storyDynamicImport: rule(
+        'turbosnap/story-dynamic-import',
+        'StoryDynamicImport',
+        'Dynamic import in a story file',
+        "TurboSnap can't trace dynamic imports in story files, which can result in missed changes or full rebuilds.",
+        'warning',
+    ),
+    componentDynamicImport: rule(
+        'turbosnap/component-dynamic-import',
+        'ComponentDynamicImport',
+        'Dynamic import in a component file',
+        "Changes to dynamically imported files can't be traced by TurboSnap, so regressions in them may go untested.",
+        'warning',
+    ),
+    dependencyDynamicImport: rule(
+        'turbosnap/dependency-dynamic-import',
+        'DependencyDynamicImport',
+        "Dynamic import in a story's dependency tree",
+        'Dynamic imports anywhere in the files a story depends on can hide changes from TurboSnap, affecting every story that uses the file.',
+        'warning',
+    ),
+    barrelImport: rule(
+        'turbosnap/barrel-import',
+        'BarrelImport',
+        'Import through a barrel file',
+        'Importing through a barrel file makes a story depend on every file the barrel re-exports, so changes to any of them retest the story.',
+        'note',
+    ),
+    previewDynamicImport: rule(
+        'turbosnap/preview-dynamic-import',
+        'PreviewDynamicImport',
+        'Dynamic import in a preview file',
+        "Dynamic imports in the preview file can't be reliably traced and may cause missed changes or unexpected full rebuilds.",
+        'warning',
+    ),
+    previewSharedWrapper: rule(
+        'turbosnap/preview-shared-wrapper',
+        'PreviewSharedWrapper',
+        'Shared wrapper imported in a preview file',
+        'Any change to a wrapper, theme or provider imported by the preview file triggers a full rebuild of all stories.',
+        'note',
+    ),
+    previewImportBudget: rule(
+        'turbosnap/preview-import-budget',
+        'PreviewImportBudget',
+        'Preview file exceeds the import budget',
+        'Every import in the preview file is a file whose changes retest all stories. Keep the preview file limited to stable, foundational setup.',
+        'warning',
+    ),
+    previewWorkspacePackage: rule(
+        'turbosnap/preview-workspace-package',
+        'PreviewWorkspacePackage',
+        'Preview file depends on another workspace package',
+        "Files from other workspace packages in the preview's dependency tree trigger a full rebuild of all stories whenever they change.",
+        'note',
+    ),
+};
+
+type RuleKey = keyof typeof RULES;
+
+const toUri = (file: string) => path.relative(process.cwd(), path.resolve(file)).split(path.sep).join('/');
+
+const result = (key: RuleKey, file: string, location: { line: number; column: number }, text: string): SarifResult => ({
+    ruleId: RULES[key].id,
+    level: RULES[key].defaultConfiguration.level,
+    message: { text },
+    locations: [
+        {
+            physicalLocation: {
+                artifactLocation: { uri: toUri(file), uriBaseId: '%SRCROOT%' },
+                region: { startLine: location.line, startColumn: location.column },
+            },
+        },
+    ],
+});
+
+/**
+ * Describes a dynamic import, including the directory it covers when it becomes a context module
+ */
+const describeDynamicImport = (imp: ImportReference, fileKind: string) => {
+    if (imp.traceability === 'context') {
+        const filter = imp.contextFilter ? ` ${describeContextFilter(imp)}` : '';
+        return `Dynamic import of \`${imp.source}\` in a ${fileKind} file bundles every file in '${imp.contextDirectory}'${filter} as a context module`;
+    }
+    if (imp.traceability === 'untraceable') {
+        return `Dynamic import of \`${imp.source}\` in a ${fileKind} file can't be traced, since its path is only known at runtime`;
+    }
+    return `Dynamic import of '${imp.source}' in a ${fileKind} file`;
+};
+
+const buildLog = (results: SarifResult[]): SarifLog => ({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+        {
+            tool: {
+                driver: {
+                    name: 'turbosnap-helper',
+                    informationUri: 'https://github.com/chromaui/turbosnap-config-builder',
+                    rules: Object.values(RULES),
+                },
+            },
+            results,
+        },
+    ],
+});
+
+/**
+ * Builds a SARIF log from the results of `analyze` mode
+ */
+export const buildAnalyzeSarif = (report: AnalyzeReport): SarifLog => {
+    // Files shared by several stories, and story or component files, are only reported once
+    const reported = new Set(
+        report.files.flatMap((file) => [file.file, ...(file.componentFile ? [file.componentFile] : [])]),
+    );
+    const dependencyImports = new Map<string, DependencyImportReference>();
+    report.files.forEach((file) =>
+        file.dependencyDynamicImports
+            .filter((imp) => !reported.has(imp.file))
+            .forEach((imp) => dependencyImports.set(`${imp.file}:${imp.line}:${imp.column}`, imp)),
+    );
+
+    return buildLog([
+        ...report.files.flatMap((file) => [
+            ...file.dynamicImports.map((imp) =>
+                result('storyDynamicImport', file.file, imp, describeDynamicImport(imp, 'story')),
+            ),
+            ...(file.componentFile && file.componentAnalysis
+                ? file.componentAnalysis.dynamicImports.map((imp) =>
+                      result(
+                          'componentDynamicImport',
+                          file.componentFile!,
+                          imp,
+                          describeDynamicImport(imp, 'component'),
+                      ),
+                  )
+                : []),
+        ]),
+        ...[...dependencyImports.values()].map((imp) =>
+            result('dependencyDynamicImport', imp.file, imp, describeDynamicImport(imp, 'dependency')),
+        ),
+        ...report.barrels.flatMap((barrel) =>
+            barrel.suggestions.map((suggestion) =>
+                result(
+                    'barrelImport',
+                    suggestion.file,
+                    suggestion,
+                    `'${suggestion.source}' is a barrel that pulls ${barrel.fanOut} files into ${barrel.storyFiles} ${
+                        barrel.storyFiles === 1 ? 'story' : 'stories'
+                    }; import from ${suggestion.replacements.map(({ source }) => `'${source}'`).join(', ')} instead`,
+                ),
+            ),
+        ),
+    ]);
+};
+
+/**
+ * Builds a SARIF log from the results of `preview` mode
+ */
+export const buildPreviewSarif = (report: PreviewReport): SarifLog =>
+    buildLog(
+        report.files.flatMap((file) => {
+            const results = [
+                ...file.dynamicImports.map((imp) =>
+                    result('previewDynamicImport', file.file, imp, describeDynamicImport(imp, 'preview')),
+                ),
+                ...file.sharedWrapperImports.map((imp) =>
+                    result(
+                        'previewSharedWrapper',
+                        file.file,
+                        imp,
+                        `'${imp.source}' looks like a shared wrapper; changes to it retest every story`,
+                    ),
+                ),
+            ];
+
+            file.workspacePackages.forEach((workspacePackage) => {
+                const imp = [...file.staticImports, ...file.dynamicImports].find(
+                    (candidate) => candidate.source === workspacePackage.importedThrough,
+                );
+                if (imp) {
+                    results.push(
+                        result(
+                            'previewWorkspacePackage',
+                            file.file,
+                            imp,
+                            `'${imp.source}' pulls ${workspacePackage.files.length} ${
+                                workspacePackage.files.length === 1 ? 'file' : 'files'
+                            } from ${
+                                workspacePackage.packageName
+                            } into the preview; changes to any of them retest every story`,
+                        ),
+                    );
+                }
+            });
+
+            if (file.exceedsImportThreshold) {
+                // Point at the first import past the budget
+                const imports: ImportReference[] = [...file.staticImports, ...file.dynamicImports].sort(
+                    (a, b) => a.line - b.line || a.column - b.column,
+                );
+                results.push(
+                    result(
+                        'previewImportBudget',
+                        file.file,
+                        imports[report.importThreshold],
+                        `Preview file has ${file.totalImports} imports, over the budget of ${report.importThreshold}`,
+                    ),
+                );
+            }
+
+            return results;
+        }),
+    );
+
+/**
+ * Writes a SARIF log to disk
+ */
+export const writeSarifReport = (filePath: string, log: SarifLog) => {
+    fs.writeFileSync(filePath, JSON.stringify(log, null, 2));
+};
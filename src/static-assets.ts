@@ -2,6 +2,8 @@ import { glob } from 'fast-glob';
 import path from 'path';
 import { prompt } from 'prompts';
 import { displayMessage } from './utils';
+import { isInteractive, missingAnswer } from './cli-options';
+import { CliOptions } from './types';
 import chalk from 'chalk';
 
 interface StaticAssetsResult {
@@ -43,9 +45,17 @@ export const findStaticAssets = async (projectRoot: string, repoRoot: string): P
 /**
  * Prompts user to review and select assets
  */
-const reviewAssets = async (assets: string[], baseDir: string, source: string): Promise<string[]> => {
+const reviewAssets = async (
+    assets: string[],
+    baseDir: string,
+    source: string,
+    options: CliOptions,
+): Promise<string[]> => {
     if (assets.length === 0) return [];
 
+    // Every asset is preselected in the review prompts, so keep them all when not prompting
+    if (!isInteractive(options)) return assets;
+
     const { reviewType } = await prompt({
         type: 'select',
         name: 'reviewType',
@@ -104,7 +114,8 @@ const reviewAssets = async (assets: string[], baseDir: string, source: string):
 export const promptForStaticAssets = async (
     assets: StaticAssetsResult,
     projectRoot: string,
-    repoRoot: string
+    repoRoot: string,
+    options: CliOptions,
 ): Promise<string[]> => {
     if (assets.projectAssets.length === 0 && assets.repoAssets.length === 0) {
         return [];
@@ -115,12 +126,18 @@ export const promptForStaticAssets = async (
         { title: '📦 Static Assets Found', borderColor: 'yellow' }
     );
 
-    const { addStaticAssets } = await prompt({
-        type: 'confirm',
-        name: 'addStaticAssets',
-        message: 'Would you like to add static assets to the externals configuration?',
-        initial: true,
-    });
+    if (!options.assets && !isInteractive(options)) {
+        missingAnswer('--assets', 'choosing which static assets to add to externals (project, repo, both or none)');
+    }
+
+    const { addStaticAssets } = options.assets
+        ? { addStaticAssets: options.assets !== 'none' }
+        : await prompt({
+            type: 'confirm',
+            name: 'addStaticAssets',
+            message: 'Would you like to add static assets to the externals configuration?',
+            initial: true,
+        });
 
     if (!addStaticAssets) {
         return [];
@@ -129,7 +146,7 @@ export const promptForStaticAssets = async (
     let selectedAssets: string[] = [];
 
     // Ask which level of assets to review
-    const { assetLevel } = await prompt({
+    const { assetLevel } = options.assets ? { assetLevel: options.assets } : await prompt({
         type: 'select',
         name: 'assetLevel',
         message: 'Which assets would you like to review?',
@@ -143,7 +160,7 @@ export const promptForStaticAssets = async (
     // Handle project assets
     if (assetLevel === 'project' || assetLevel === 'both') {
         if (assets.projectAssets.length > 0) {
-            const projectSelected = await reviewAssets(assets.projectAssets, projectRoot, 'project');
+            const projectSelected = await reviewAssets(assets.projectAssets, projectRoot, 'project', options);
             selectedAssets.push(...projectSelected);
         } else {
             displayMessage(
@@ -156,7 +173,7 @@ export const promptForStaticAssets = async (
     // Handle repository assets
     if (assetLevel === 'repo' || assetLevel === 'both') {
         if (assets.repoAssets.length > 0) {
-            const repoSelected = await reviewAssets(assets.repoAssets, repoRoot, 'repository');
+            const repoSelected = await reviewAssets(assets.repoAssets, repoRoot, 'repository', options);
             selectedAssets.push(...repoSelected);
         } else {
             displayMessage(
@@ -170,7 +187,11 @@ export const promptForStaticAssets = async (
         return [];
     }
 
-    const { assetType } = await prompt({
+    if (!options.externalsStyle && !isInteractive(options)) {
+        missingAnswer('--externals-style', 'choosing how assets are added to externals (glob or individual)');
+    }
+
+    const { assetType } = options.externalsStyle ? { assetType: options.externalsStyle } : await prompt({
         type: 'select',
         name: 'assetType',
         message: 'How would you like to add the selected assets to externals?',
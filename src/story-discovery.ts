@@ -0,0 +1,49 @@
+import { glob } from 'fast-glob';
+import path from 'path';
+import type { NormalizedStoriesSpecifier } from 'storybook/internal/types';
+import { loadStorybookModules } from './storybook-resolver';
+
+/**
+ * Stories entry used when main.js has no `stories` field that can be read without running it:
+ * every story and MDX file in the project, relative to the config directory
+ */
+const FALLBACK_STORIES = ['../**/*.@(mdx|stories.@(js|jsx|mjs|cjs|mts|cts|ts|tsx))'];
+
+/**
+ * Reads the `stories` entries in a Storybook's main.js and normalizes them the way Storybook does.
+ * Both glob strings and `{ directory, files, titlePrefix }` objects are supported, relative to the
+ * config directory.
+ */
+export const findStorySpecifiers = async (configDir: string): Promise<NormalizedStoriesSpecifier[]> => {
+    const { findConfigFile, readConfig, normalizeStories } = loadStorybookModules();
+    const mainConfigPath = findConfigFile('main', configDir);
+    const mainConfig = mainConfigPath ? await readConfig(mainConfigPath) : undefined;
+    const entries = mainConfig?.getSafeFieldValue(['stories']);
+
+    return normalizeStories(Array.isArray(entries) && entries.length > 0 ? entries : FALLBACK_STORIES, {
+        configDir,
+        workingDir: process.cwd(),
+    });
+};
+
+/**
+ * Finds the story and MDX files a Storybook loads, by evaluating the `stories` entries in its
+ * main.js the way Storybook does. Pass the entries when they've already been read. Returns
+ * absolute paths.
+ */
+export const findStoryFiles = async (
+    configDir: string,
+    specifiers?: NormalizedStoriesSpecifier[],
+): Promise<string[]> => {
+    const files = await Promise.all(
+        (specifiers ?? (await findStorySpecifiers(configDir))).map((specifier) =>
+            glob(specifier.files, {
+                cwd: path.resolve(specifier.directory),
+                absolute: true,
+                ignore: ['**/node_modules/**'],
+            }),
+        ),
+    );
+
+    return [...new Set(files.flat().map((file) => path.resolve(file)))].sort();
+};
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { glob } from 'fast-glob';
+import { StorybookNotFoundError } from './errors';
 
 /**
  * Dynamically resolve Storybook modules from the current project.
@@ -11,9 +12,13 @@ import { glob } from 'fast-glob';
 let JsPackageManager: any;
 let JsPackageManagerFactory: any;
 let findConfigFile: any;
+let normalizeStories: any;
 let readConfig: any;
 let PackageManagerName: any;
 let ConfigFile: any;
+let loadCsf: any;
+let userOrAutoTitleFromSpecifier: any;
+let babelParser: any;
 
 const resolveStorybookModules = () => {
     // Try multiple resolution strategies for monorepo support
@@ -24,9 +29,10 @@ const resolveStorybookModules = () => {
 
     // Add any existing .storybook directories to the search paths
     try {
-        const storybookDirs = fs.readdirSync(process.cwd())
-            .filter(dir => fs.existsSync(path.join(process.cwd(), dir, '.storybook')))
-            .map(dir => path.resolve(process.cwd(), dir, 'node_modules'));
+        const storybookDirs = fs
+            .readdirSync(process.cwd())
+            .filter((dir) => fs.existsSync(path.join(process.cwd(), dir, '.storybook')))
+            .map((dir) => path.resolve(process.cwd(), dir, 'node_modules'));
         resolutionPaths.push(...storybookDirs);
     } catch (error) {
         // Ignore errors when reading directory
@@ -40,8 +46,8 @@ const resolveStorybookModules = () => {
             ignore: ['**/node_modules/**'],
             cwd: process.cwd(),
         });
-        
-        storybookConfigDirs.forEach(storybookDir => {
+
+        storybookConfigDirs.forEach((storybookDir) => {
             // Get the parent directory of .storybook
             const parentDir = path.dirname(storybookDir);
             const nodeModulesPath = path.resolve(process.cwd(), parentDir, 'node_modules');
@@ -58,15 +64,22 @@ const resolveStorybookModules = () => {
         try {
             const storybookCommon = require(require.resolve('storybook/internal/common', { paths: [basePath] }));
             const storybookCsfTools = require(require.resolve('storybook/internal/csf-tools', { paths: [basePath] }));
-            
+            const storybookBabel = require(require.resolve('storybook/internal/babel', { paths: [basePath] }));
+            const storybookPreviewApi = require(require.resolve('storybook/internal/preview-api', {
+                paths: [basePath],
+            }));
+
             JsPackageManager = storybookCommon.JsPackageManager;
             JsPackageManagerFactory = storybookCommon.JsPackageManagerFactory;
             findConfigFile = storybookCommon.findConfigFile;
+            normalizeStories = storybookCommon.normalizeStories;
             readConfig = storybookCsfTools.readConfig;
             PackageManagerName = storybookCommon.PackageManagerName;
             ConfigFile = storybookCsfTools.ConfigFile;
-            
-            console.log(`Found Storybook modules in: ${basePath}`);
+            loadCsf = storybookCsfTools.loadCsf;
+            userOrAutoTitleFromSpecifier = storybookPreviewApi.userOrAutoTitleFromSpecifier;
+            babelParser = storybookBabel.parser;
+
             return true;
         } catch (error) {
             // Continue to next path
@@ -77,30 +90,48 @@ const resolveStorybookModules = () => {
     try {
         const storybookCommon = require('storybook/internal/common');
         const storybookCsfTools = require('storybook/internal/csf-tools');
+        const storybookBabel = require('storybook/internal/babel');
+        const storybookPreviewApi = require('storybook/internal/preview-api');
         JsPackageManager = storybookCommon.JsPackageManager;
         JsPackageManagerFactory = storybookCommon.JsPackageManagerFactory;
         findConfigFile = storybookCommon.findConfigFile;
+        normalizeStories = storybookCommon.normalizeStories;
         readConfig = storybookCsfTools.readConfig;
         PackageManagerName = storybookCommon.PackageManagerName;
         ConfigFile = storybookCsfTools.ConfigFile;
+        loadCsf = storybookCsfTools.loadCsf;
+        userOrAutoTitleFromSpecifier = storybookPreviewApi.userOrAutoTitleFromSpecifier;
+        babelParser = storybookBabel.parser;
         return true;
     } catch (fallbackError) {
         return false;
     }
 };
 
-// Initialize the modules
-if (!resolveStorybookModules()) {
-    console.error('Error: Could not find Storybook modules. Please ensure you are running this tool within a Storybook project.');
-    process.exit(1);
-}
+let resolved = false;
 
-// Export the resolved modules
-export {
-    JsPackageManager,
-    JsPackageManagerFactory,
-    findConfigFile,
-    readConfig,
-    PackageManagerName,
-    ConfigFile,
-}; 
\ No newline at end of file
+/**
+ * Resolves the Storybook modules on first use, so importing this file has no side effects.
+ * Throws StorybookNotFoundError when Storybook isn't installed in the project.
+ */
+export const loadStorybookModules = () => {
+    if (!resolved) {
+        if (!resolveStorybookModules()) {
+            throw new StorybookNotFoundError();
+        }
+        resolved = true;
+    }
+
+    return {
+        JsPackageManager,
+        JsPackageManagerFactory,
+        findConfigFile,
+        normalizeStories,
+        readConfig,
+        PackageManagerName,
+        ConfigFile,
+        loadCsf,
+        userOrAutoTitleFromSpecifier,
+        babelParser,
+    };
+};
@@ -1,3 +1,5 @@
+import type { NormalizedStoriesSpecifier } from 'storybook/internal/types';
+
 /**
  * Interface for Chromatic configuration file structure
  */
@@ -24,4 +26,687 @@ export interface ProjectMeta {
     framework: string;
     ciEnv: string;
     staticAssets: string[];
-} 
\ No newline at end of file
+    /** Packages of the monorepo the project is in, empty outside a monorepo */
+    workspacePackages: WorkspacePackage[];
+}
+
+/**
+ * Tools whose config files mark a monorepo root. `workspaces` is the `package.json` field used by
+ * npm and Yarn.
+ */
+export type WorkspaceTool = 'workspaces' | 'pnpm' | 'lerna' | 'nx' | 'turbo' | 'rush';
+
+/**
+ * The repository a directory belongs to, and the workspace tools configured at its root
+ */
+export interface WorkspaceInfo {
+    rootDir: string;
+    isMonorepo: boolean;
+    tools: WorkspaceTool[];
+    /** Globs for package directories, relative to the root. Patterns starting with `!` exclude directories. */
+    packagePatterns: string[];
+}
+
+/**
+ * A package in a monorepo
+ */
+export interface WorkspacePackage {
+    name: string;
+    /** Relative to the repository root */
+    directory: string;
+}
+
+/**
+ * Which static assets to review when adding externals
+ */
+export type AssetLevel = 'project' | 'repo' | 'both' | 'none';
+
+/**
+ * How selected static assets are written to externals
+ */
+export type ExternalsStyle = 'glob' | 'individual';
+
+/**
+ * Output format for the analysis modes
+ */
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * Options parsed from the command line
+ */
+export interface CliOptions {
+    mode: string;
+    project?: string;
+    projectId?: string;
+    assets?: AssetLevel;
+    externalsStyle?: ExternalsStyle;
+    scriptName?: string;
+    yes: boolean;
+    dryRun: boolean;
+    all: boolean;
+    format: OutputFormat;
+    sarif?: string;
+    base?: string;
+    /** Analyze every Storybook project in the repository instead of prompting for one */
+    allProjects: boolean;
+    /** Skip the on-disk analysis cache */
+    noCache: boolean;
+    /** Positional arguments after the mode, such as the files passed to `impact` */
+    files: string[];
+}
+
+/**
+ * A planned write to a file on disk. `before` is null when the file doesn't exist yet.
+ */
+export interface FileChange {
+    path: string;
+    before: string | null;
+    after: string;
+}
+
+/**
+ * How a module is imported:
+ * - `static`: `import x from './x'`
+ * - `side-effect`: `import './global.css'`
+ * - `type-only`: `import type { X } from './x'`, erased at build time
+ * - `re-export`: `export * from './x'` or `export { x } from './x'`
+ * - `dynamic-literal`: `import('./x')` with a string literal
+ * - `dynamic-non-literal`: `import(name)` or `require(name)` with any other expression
+ * - `require`: `require('./x')` with a string literal
+ */
+export type ImportKind =
+    | 'static'
+    | 'side-effect'
+    | 'type-only'
+    | 're-export'
+    | 'dynamic-literal'
+    | 'dynamic-non-literal'
+    | 'require'
+    | 'require-context'
+    | 'import-meta-glob';
+
+/**
+ * Whether a bundler, and so TurboSnap, can follow a dynamic import:
+ * - `traceable`: a string literal, which resolves to a single file
+ * - `context`: a non-literal path with a static directory prefix, like `import(\`./icons/${name}\`)`,
+ *   which bundles every file in that directory as a context module
+ * - `untraceable`: any other expression, like `require(variable)` or `import(path.join(...))`
+ */
+export type DynamicImportTraceability = 'traceable' | 'context' | 'untraceable';
+
+/**
+ * Which files in its directory a `require.context` or `import.meta.glob` call bundles: a regular
+ * expression tested against `./`-prefixed paths, or glob patterns relative to the directory
+ */
+export interface ContextModuleFilter {
+    regExp?: string;
+    /** Whether `require.context` searches subdirectories */
+    recursive?: boolean;
+    patterns?: string[];
+}
+
+/**
+ * An import and where it appears in its file. Lines and columns are 1-based.
+ * For non-literal dynamic imports, `source` is the source text of the expression.
+ * Dynamic imports also record their traceability, and context modules the directory they cover,
+ * relative to the working directory for relative imports.
+ */
+export interface ImportReference {
+    source: string;
+    kind: ImportKind;
+    line: number;
+    column: number;
+    traceability?: DynamicImportTraceability;
+    contextDirectory?: string;
+    /** For `require.context` and `import.meta.glob`, the files bundled from `contextDirectory` */
+    contextFilter?: ContextModuleFilter;
+    /** How many files a relative `require.context` or `import.meta.glob` currently bundles */
+    matchedFiles?: number;
+    /** Names imported or re-exported from the source: `default`, `*` for namespaces, or the export name */
+    names?: string[];
+}
+
+/**
+ * Imports found in a single file
+ */
+export interface FileImportAnalysis {
+    staticImports: ImportReference[];
+    dynamicImports: ImportReference[];
+    parseError?: string;
+    /** Set when the file mostly re-exports other modules, like an `index.ts` barrel */
+    isBarrel?: boolean;
+}
+
+/**
+ * A `require()` or dynamic `import()` rewritten as a static import
+ */
+export interface StaticImportRewrite {
+    line: number;
+    column: number;
+    /** The statement as written */
+    before: string;
+    /** The import declaration replacing it */
+    after: string;
+}
+
+/**
+ * A `require()` or dynamic `import()` that can't safely become a static import, and why
+ */
+export interface SkippedImportRewrite {
+    line: number;
+    column: number;
+    source: string;
+    reason: string;
+}
+
+/**
+ * The static imports a file's `require()` calls and dynamic imports can be rewritten to
+ */
+export interface StaticImportPlan {
+    /** Relative to the working directory */
+    file: string;
+    before: string;
+    after: string;
+    rewrites: StaticImportRewrite[];
+    skipped: SkippedImportRewrite[];
+}
+
+/**
+ * Where an import specifier resolves to:
+ * - `file`: a file in the repository, including the source of workspace packages
+ * - `external`: a package installed in `node_modules`, which isn't followed
+ * - `builtin`: a Node.js built-in module
+ * - `unresolved`: a relative path or workspace package entry that doesn't exist
+ */
+export type ResolvedModule =
+    | { type: 'file'; path: string }
+    | { type: 'external'; packageName: string }
+    | { type: 'builtin' }
+    | { type: 'unresolved' };
+
+/**
+ * What the analysis cache stores for a file, valid for as long as the file's content is unchanged
+ */
+export interface AnalysisCacheEntry {
+    /** Hash of the file's content */
+    hash: string;
+    analysis?: FileImportAnalysis;
+    /** What each import source resolved to */
+    resolutions?: Record<string, ResolvedModule>;
+    csf?: CsfMetadata;
+    csfError?: string;
+    /** The `stories` entry the CSF title and story ids were generated for */
+    storiesEntry?: Pick<NormalizedStoriesSpecifier, 'directory' | 'titlePrefix'>;
+}
+
+/**
+ * Checks whether paths exist, so module resolution can use a file index instead of the file system
+ */
+export interface FileLookup {
+    isFile: (filePath: string) => boolean;
+    isDirectory: (filePath: string) => boolean;
+}
+
+/**
+ * Every file and directory under a root directory, outside `node_modules`, with absolute paths
+ */
+export interface FileIndex {
+    root: string;
+    files: Set<string>;
+    directories: Set<string>;
+}
+
+/**
+ * A file in a dependency graph, with its imports resolved. Paths are absolute.
+ */
+export interface DependencyNode extends FileImportAnalysis {
+    file: string;
+    /** Files this file imports, including files bundled through context modules */
+    dependencies: string[];
+    /** Packages this file imports from `node_modules` */
+    externals: string[];
+    /** Imports that point at files that don't exist */
+    unresolvedImports: ImportReference[];
+    /** The file each resolved import source points to */
+    resolvedImports: Record<string, string>;
+}
+
+/**
+ * Every file reachable from a set of entry files, keyed by absolute path
+ */
+export type DependencyGraph = Map<string, DependencyNode>;
+
+/**
+ * An import found in another file, such as a dependency of a story
+ */
+export interface DependencyImportReference extends ImportReference {
+    file: string;
+}
+
+/**
+ * Analysis of a story file and, when it could be located, the component it renders
+ */
+/**
+ * A component referenced by a story file's meta, and the file it's declared in
+ */
+export interface ComponentReference {
+    /** The expression used in the meta, like `Button` or `Form.Field` */
+    name: string;
+    /** The import source the component comes from, when it's imported */
+    source?: string;
+    /** The file declaring the component, relative to the working directory, when it could be resolved */
+    file?: string;
+}
+
+/**
+ * A story exported from a story file
+ */
+export interface StoryExport {
+    exportName: string;
+    name: string;
+    id: string;
+}
+
+/**
+ * What Storybook's CSF parser reads from a story file
+ */
+export interface CsfMetadata {
+    /**
+     * The title set in the meta, prefixed with its `stories` entry's `titlePrefix`, or undefined
+     * when Storybook generates it from the file path
+     */
+    title?: string;
+    component?: ComponentReference;
+    subcomponents: ComponentReference[];
+    stories: StoryExport[];
+}
+
+export interface StoryFileAnalysis extends FileImportAnalysis {
+    file: string;
+    /** The story file's meta and stories, unless it couldn't be read as CSF */
+    csf?: CsfMetadata;
+    /** Why the story file couldn't be read as CSF */
+    csfError?: string;
+    componentFile?: string;
+    componentAnalysis?: FileImportAnalysis;
+    /** Every file the story depends on, directly or transitively, relative to the working directory */
+    dependencies: string[];
+    /** Dynamic imports anywhere in the story's dependency tree, outside the story file itself */
+    dependencyDynamicImports: DependencyImportReference[];
+}
+
+/**
+ * Totals across every analyzed story file
+ */
+export interface AnalyzeSummary {
+    totalFiles: number;
+    storyStaticImports: number;
+    storyDynamicImports: number;
+    storyFilesWithDynamicImports: number;
+    componentStaticImports: number;
+    componentDynamicImports: number;
+    componentFilesWithDynamicImports: number;
+    traceableDynamicImports: number;
+    contextDynamicImports: number;
+    untraceableDynamicImports: number;
+    /** Files in the dependency trees of all stories, counted once */
+    dependencyFiles: number;
+    dependencyDynamicImports: number;
+    dependencyFilesWithDynamicImports: number;
+    /** Directories bundled as context modules, so a change to any file in them is picked up */
+    contextDirectories: string[];
+    /** Barrel files reached from stories */
+    barrelFiles: number;
+}
+
+/**
+ * A direct import path that avoids going through a barrel file
+ */
+export interface BarrelImportSuggestion {
+    /** The file importing through the barrel, relative to the working directory */
+    file: string;
+    line: number;
+    column: number;
+    source: string;
+    /**
+     * Replacement imports, each with the names it provides as they were imported through the barrel,
+     * and the import clause that binds them to the names their origin exports
+     */
+    replacements: { source: string; names: string[]; clause: string }[];
+}
+
+/**
+ * A barrel file in the stories' dependency trees and how much it pulls in
+ */
+export interface BarrelFileAnalysis {
+    file: string;
+    /** Story files that import through the barrel, directly or transitively */
+    storyFiles: number;
+    /** Files reachable through the barrel, which every importing story depends on */
+    fanOut: number;
+    suggestions: BarrelImportSuggestion[];
+}
+
+/**
+ * Structured result of `analyze` mode
+ */
+export interface AnalyzeReport {
+    mode: 'analyze';
+    project: string | null;
+    isMonorepo: boolean;
+    files: StoryFileAnalysis[];
+    barrels: BarrelFileAnalysis[];
+    summary: AnalyzeSummary;
+}
+
+/**
+ * A direct import of a preview file, and how many files it pulls into the preview's dependency tree
+ */
+export interface PreviewImportSubtree {
+    source: string;
+    file: string;
+    /** Files reachable through the import, including the imported file */
+    reachableFiles: number;
+}
+
+/**
+ * Files in a preview's dependency tree that belong to another workspace package
+ */
+export interface PreviewWorkspacePackage {
+    packageName: string;
+    directory: string;
+    /** The preview import the package is first reached through */
+    importedThrough?: string;
+    files: string[];
+}
+
+/**
+ * Kinds of script files that Storybook loads for every story: `preview.*`, `manager.*`, and files
+ * added through `previewAnnotations` in main config
+ */
+export type GlobalFileKind = 'preview' | 'manager' | 'preview-annotation';
+
+/**
+ * The files in a Storybook config directory that affect every story. Paths are absolute.
+ */
+export interface GlobalFiles {
+    previewFiles: string[];
+    managerFiles: string[];
+    previewAnnotations: string[];
+    /** `preview-head.html` and `preview-body.html` */
+    htmlFiles: string[];
+}
+
+/**
+ * A stylesheet, script, font or other asset referenced from `preview-head.html` or `preview-body.html`
+ */
+export interface HtmlAssetReference {
+    kind: 'stylesheet' | 'script' | 'font' | 'asset';
+    url: string;
+    line: number;
+    /** Set for URLs on another host, which TurboSnap can't see changes to */
+    remote: boolean;
+    /** The file in a static directory the URL is served from, relative to the working directory */
+    file?: string;
+}
+
+/**
+ * Analysis of a `preview-head.html` or `preview-body.html` file
+ */
+export interface GlobalHtmlAnalysis {
+    file: string;
+    references: HtmlAssetReference[];
+    /** `externals` entries that retest every story when a referenced local file changes */
+    suggestedExternals: string[];
+}
+
+/**
+ * Preview annotations broken down by `preview` mode
+ */
+export type PreviewExportKind = 'decorator' | 'loader' | 'globalType' | 'parameter';
+
+/**
+ * A single decorator, loader, `globalTypes` entry or parameter exported by a preview file, and
+ * what it depends on
+ */
+export interface PreviewExportEntry {
+    kind: PreviewExportKind;
+    /** Position in the `decorators` or `loaders` array, or in the `globalTypes` or `parameters` object, from 1 */
+    index: number;
+    name: string;
+    line: number;
+    /** Import sources the entry uses, directly or through other declarations in the file */
+    imports: string[];
+    /** The files and directories those imports resolve to, like `src/flags/**` for an index file */
+    reaches: string[];
+    /** Files reachable through those imports */
+    reachableFiles: number;
+}
+
+/**
+ * Analysis of a single preview file, or another script file loaded for every story
+ */
+export interface PreviewFileAnalysis extends FileImportAnalysis {
+    file: string;
+    kind: GlobalFileKind;
+    totalImports: number;
+    exceedsImportThreshold: boolean;
+    hasSharedWrappers: boolean;
+    sharedWrapperImports: ImportReference[];
+    isMonorepo: boolean;
+    /** Every file the preview depends on, directly or transitively. A change to any of them retests every story. */
+    reachableFiles: number;
+    /** The preview's direct imports that pull in the most files */
+    heaviestImports: PreviewImportSubtree[];
+    /** Reachable files that live in other workspace packages */
+    workspacePackages: PreviewWorkspacePackage[];
+    /** The preview's decorators, loaders, `globalTypes` and parameters */
+    exports: PreviewExportEntry[];
+}
+
+/**
+ * Structured result of `preview` mode
+ */
+export interface PreviewReport {
+    mode: 'preview';
+    project: string;
+    isMonorepo: boolean;
+    importThreshold: number;
+    files: PreviewFileAnalysis[];
+    htmlFiles: GlobalHtmlAnalysis[];
+}
+
+/**
+ * A single project's results in the `--all-projects` report
+ */
+export interface ProjectAnalysisSummary {
+    /** The Storybook config directory */
+    project: string;
+    storyFiles: number;
+    /** Dynamic imports in the project's stories and their dependency trees, by traceability */
+    dynamicImports: Record<DynamicImportTraceability, number>;
+    barrelFiles: number;
+    previewFiles: {
+        file: string;
+        totalImports: number;
+        exceedsImportThreshold: boolean;
+        /** Files the preview depends on, directly or transitively */
+        reachableFiles: number;
+        /** Sources of the imports that look like shared wrappers, decorators or themes */
+        sharedWrappers: string[];
+    }[];
+    /** Workspace packages the project's preview files import */
+    previewWorkspacePackages: string[];
+    /** Why the project couldn't be analyzed, when it couldn't */
+    error?: string;
+}
+
+/**
+ * A workspace package imported by the preview files of several projects, so a change to it
+ * retests every story in each of them
+ */
+export interface SharedPreviewPackage {
+    packageName: string;
+    projects: string[];
+}
+
+/**
+ * Structured result of `analyze --all-projects` and `preview --all-projects`
+ */
+export interface AllProjectsReport {
+    mode: 'all-projects';
+    isMonorepo: boolean;
+    importThreshold: number;
+    projects: ProjectAnalysisSummary[];
+    sharedPreviewPackages: SharedPreviewPackage[];
+}
+
+/**
+ * Fields of `main.*` that affect what TurboSnap traces
+ */
+export type MainConfigField = 'stories' | 'staticDirs' | 'webpackFinal' | 'viteFinal' | 'addons';
+
+/**
+ * A `main.*` setting that affects how TurboSnap traces changes, and what it means
+ */
+export interface MainConfigFinding {
+    field: MainConfigField;
+    level: 'warning' | 'info';
+    /** The setting as written, like a stories glob or an addon name */
+    value: string;
+    message: string;
+}
+
+/**
+ * A `stories` entry, with the directory and glob Storybook searches. Paths are relative to the working directory.
+ */
+export interface MainStoriesEntry {
+    entry: string;
+    directory: string;
+    files: string;
+    matchedFiles: number;
+    outsideProject: boolean;
+}
+
+/**
+ * A `staticDirs` entry. `directory` is undefined when the path is built at runtime.
+ */
+export interface MainStaticDir {
+    from: string;
+    to?: string;
+    directory?: string;
+    files: number;
+    outsideProject: boolean;
+}
+
+/**
+ * A `resolve.alias` entry set in `webpackFinal` or `viteFinal`. `directory` is set when the
+ * replacement is a path that can be worked out without running the config.
+ */
+export interface MainBundlerAlias {
+    field: 'webpackFinal' | 'viteFinal';
+    find: string;
+    replacement: string;
+    directory?: string;
+    outsideProject: boolean;
+}
+
+/**
+ * An addon, and whether it adds decorators or other preview code to every story
+ */
+export interface MainAddon {
+    name: string;
+    /** Set for addons that live in the repository, like `./my-addon` */
+    local: boolean;
+    injectsDecorators: boolean;
+}
+
+/**
+ * Structured result of `main` mode
+ */
+export interface MainConfigReport {
+    mode: 'main';
+    project: string;
+    configFile: string;
+    stories: MainStoriesEntry[];
+    staticDirs: MainStaticDir[];
+    aliases: MainBundlerAlias[];
+    addons: MainAddon[];
+    findings: MainConfigFinding[];
+}
+
+/**
+ * A story file affected by a change, with the import chain that connects them.
+ * The chain starts at the story file and ends at the changed file.
+ */
+export interface ImpactedStory {
+    file: string;
+    chain: string[];
+}
+
+/**
+ * What changing a single file would retest
+ */
+export interface FileImpact {
+    file: string;
+    exists: boolean;
+    /** Why the change retests every story, when it does */
+    fullRebuildReason?: string;
+    /** The import chain from the preview or config file to the changed file, when it causes a full rebuild */
+    fullRebuildChain?: string[];
+    stories: ImpactedStory[];
+}
+
+/**
+ * Structured result of `impact` mode
+ */
+export interface ImpactReport {
+    mode: 'impact';
+    project: string;
+    totalStoryFiles: number;
+    triggersFullRebuild: boolean;
+    /** Every story file affected by at least one of the changed files */
+    affectedStoryFiles: string[];
+    files: FileImpact[];
+}
+
+/**
+ * A changed file that makes Chromatic retest every story, and why
+ */
+export interface FullRebuildTrigger {
+    file: string;
+    reason: string;
+}
+
+/**
+ * Structured result of `predict` mode
+ */
+export interface PredictReport {
+    mode: 'predict';
+    project: string;
+    base: string;
+    configFile: string | null;
+    storybookBaseDir: string;
+    /**
+     * - `full-rebuild`: every story is retested
+     * - `partial`: only the affected stories are retested
+     * - `no-changes`: no story is affected
+     */
+    outcome: 'full-rebuild' | 'partial' | 'no-changes';
+    changedFiles: string[];
+    totalStoryFiles: number;
+    affectedStoryFiles: string[];
+    /** Changed files matched by the config's `externals`, with the pattern that matched */
+    externalsMatches: { file: string; pattern: string }[];
+    fullRebuildTriggers: FullRebuildTrigger[];
+}
+
+/**
+ * A mismatch between a Chromatic config (or the scripts using it) and the detected project
+ */
+export interface ConfigProblem {
+    field: string;
+    message: string;
+    expected?: string;
+    actual?: string;
+}
@@ -1,7 +1,9 @@
 import boxen from 'boxen';
 import chalk from 'chalk';
 import dedent from 'dedent';
-import { ProjectMeta } from './types';
+import fs from 'fs';
+import path from 'path';
+import { ImportReference, ProjectMeta } from './types';
 
 /**
  * Normalizes package manager name to standard format
@@ -54,6 +56,71 @@ export const displayMessage = (
     console.log('\n');
 };
 
+/**
+ * Warns about files that couldn't be parsed, since their imports are missing from the results
+ */
+export const displayParseErrors = (files: { file: string; parseError?: string }[]) => {
+    const failedFiles = files.filter((file) => file.parseError);
+    if (failedFiles.length === 0) {
+        return;
+    }
+
+    displayMessage(
+        `Couldn't parse ${chalk.yellow(failedFiles.length)} ${
+            failedFiles.length === 1 ? 'file' : 'files'
+        }, so their imports are not included in the results:\n\n${failedFiles
+            .map((file) => `${chalk.cyan(file.file)}\n   ${file.parseError}`)
+            .join('\n')}`,
+        { title: '🚨 Parse Errors', borderColor: 'yellow' },
+    );
+};
+
+/**
+ * Describes the files a `require.context` or `import.meta.glob` call bundles from its directory,
+ * like `matching /\.svg$/ (12 files)`. Returns an empty string for other imports.
+ */
+export const describeContextFilter = ({ contextFilter, matchedFiles }: ImportReference): string => {
+    if (!contextFilter) {
+        return '';
+    }
+
+    const filter = contextFilter.patterns
+        ? contextFilter.patterns.join(', ')
+        : `${contextFilter.regExp ?? 'any file'}${contextFilter.recursive === false ? ', not in subdirectories' : ''}`;
+    const count = matchedFiles === undefined ? '' : ` (${matchedFiles} ${matchedFiles === 1 ? 'file' : 'files'})`;
+    return `matching ${filter}${count}`;
+};
+
+/**
+ * Minimum time between progress updates, in milliseconds
+ */
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * Shows a progress counter like `Analyzing story files 120/6000` on a single line of stderr, so
+ * it never mixes with JSON on stdout. Nothing is shown when stderr isn't a terminal.
+ */
+export const createProgress = (label: string) => {
+    const enabled = Boolean(process.stderr.isTTY);
+    let lastUpdate = 0;
+
+    return {
+        update: (completed: number, total?: number) => {
+            const now = Date.now();
+            if (!enabled || (now - lastUpdate < PROGRESS_INTERVAL && completed !== total)) {
+                return;
+            }
+            lastUpdate = now;
+            process.stderr.write(`\r${chalk.dim(label)} ${completed}${total === undefined ? '' : `/${total}`}\x1b[K`);
+        },
+        done: () => {
+            if (enabled) {
+                process.stderr.write('\r\x1b[K');
+            }
+        },
+    };
+};
+
 /**
  * Exits the program with a goodbye message
  */
@@ -78,3 +145,73 @@ export const displayProjectMeta = (meta: ProjectMeta) => {
         },
     );
 };
+
+/**
+ * Prints a structured document to stdout with no decoration, for consumption by other tools
+ */
+export const printJson = (document: unknown) => {
+    process.stdout.write(`${JSON.stringify(document, null, 2)}\n`);
+};
+
+/**
+ * Finds the directory of the package a file belongs to
+ */
+export const findPackageDir = (file: string): string | undefined => {
+    let dir = path.dirname(file);
+    while (!fs.existsSync(path.join(dir, 'package.json'))) {
+        if (path.dirname(dir) === dir) {
+            return undefined;
+        }
+        dir = path.dirname(dir);
+    }
+    return dir;
+};
+
+/**
+ * Parses JSON that may contain comments and trailing commas, as tsconfig.json files do
+ */
+const parseJsonc = (content: string): any => {
+    let output = '';
+    let inString = false;
+    // Output index of the last comma outside a string, dropped if only whitespace or comments precede `}` or `]`
+    let pendingComma = -1;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inString) {
+            output += char;
+            if (char === '\\') {
+                output += content[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '/' && content[i + 1] === '/') {
+            while (i < content.length && content[i] !== '\n') i++;
+            output += '\n';
+        } else if (char === '/' && content[i + 1] === '*') {
+            i = content.indexOf('*/', i + 2);
+            if (i === -1) break;
+            i++;
+        } else if (/\s/.test(char)) {
+            output += char;
+        } else {
+            if (pendingComma !== -1 && (char === '}' || char === ']')) {
+                output = output.slice(0, pendingComma) + output.slice(pendingComma + 1);
+            }
+            pendingComma = char === ',' ? output.length : -1;
+            inString = char === '"';
+            output += char;
+        }
+    }
+    return JSON.parse(output);
+};
+
+/**
+ * Reads a JSON or JSONC file, or returns undefined when it's missing or invalid
+ */
+export const readJson = (filePath: string): any => {
+    try {
+        return parseJsonc(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        return undefined;
+    }
+};
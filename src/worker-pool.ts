@@ -0,0 +1,31 @@
+/**
+ * Number of files read and analyzed at once
+ */
+export const DEFAULT_CONCURRENCY = 16;
+
+/**
+ * Maps items through an async worker, running at most `concurrency` workers at once. Results keep
+ * the order of the items, and `onResult` is called as each one finishes.
+ */
+export const mapWithConcurrency = async <T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>,
+    {
+        concurrency = DEFAULT_CONCURRENCY,
+        onResult,
+    }: { concurrency?: number; onResult?: (result: R, index: number) => void } = {},
+): Promise<R[]> => {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runWorker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+            onResult?.(results[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+    return results;
+};
@@ -0,0 +1,180 @@
+import { glob } from 'fast-glob';
+import fs from 'fs';
+import path from 'path';
+import { WorkspaceInfo, WorkspacePackage, WorkspaceTool } from './types';
+import { readJson } from './utils';
+
+/**
+ * Workspace detection results by starting directory, since every report asks for them
+ */
+const workspaceCache = new Map<string, WorkspaceInfo>();
+
+/**
+ * Workspace packages by repository root, since the module resolver looks them up for every import
+ */
+const packagesCache = new Map<string, WorkspacePackage[]>();
+
+/**
+ * Reads the `packages` list of a `pnpm-workspace.yaml`, in either block or flow style
+ */
+const readPnpmPackages = (filePath: string): string[] => {
+    const patterns: string[] = [];
+    let inPackages = false;
+    fs.readFileSync(filePath, 'utf-8')
+        .split('\n')
+        .forEach((line) => {
+            const flow = line.match(/^packages\s*:\s*\[(.*)\]/);
+            if (flow) {
+                patterns.push(...flow[1].split(',').map((item) => item.trim().replace(/^['"]|['"]$/g, '')));
+            } else if (/^packages\s*:/.test(line)) {
+                inPackages = true;
+            } else if (inPackages && /^\S/.test(line) && !line.startsWith('#')) {
+                inPackages = false;
+            } else if (inPackages) {
+                const item = line.match(/^\s*-\s*(['"]?)(.+?)\1\s*(#.*)?$/);
+                if (item) {
+                    patterns.push(item[2]);
+                }
+            }
+        });
+    return patterns.filter(Boolean);
+};
+
+/**
+ * Reads the workspace tools configured in a directory and the package globs they declare
+ */
+const readWorkspaceConfig = (dir: string): { tools: WorkspaceTool[]; patterns: string[] } => {
+    const tools: WorkspaceTool[] = [];
+    const patterns: string[] = [];
+
+    const packageJson = readJson(path.join(dir, 'package.json'));
+    const workspaces = Array.isArray(packageJson?.workspaces)
+        ? packageJson.workspaces
+        : packageJson?.workspaces?.packages;
+    if (Array.isArray(workspaces)) {
+        tools.push('workspaces');
+        patterns.push(...workspaces);
+    }
+
+    if (fs.existsSync(path.join(dir, 'pnpm-workspace.yaml'))) {
+        tools.push('pnpm');
+        patterns.push(...readPnpmPackages(path.join(dir, 'pnpm-workspace.yaml')));
+    }
+
+    if (fs.existsSync(path.join(dir, 'lerna.json'))) {
+        tools.push('lerna');
+        patterns.push(...(readJson(path.join(dir, 'lerna.json'))?.packages ?? []));
+    }
+
+    // Nx and Turborepo use the package manager's workspaces; Nx projects can also be folders with a project.json
+    ['nx', 'turbo'].forEach((tool) => {
+        if (fs.existsSync(path.join(dir, `${tool}.json`))) {
+            tools.push(tool as WorkspaceTool);
+        }
+    });
+
+    if (fs.existsSync(path.join(dir, 'rush.json'))) {
+        tools.push('rush');
+        const projects = readJson(path.join(dir, 'rush.json'))?.projects;
+        patterns.push(
+            ...(Array.isArray(projects)
+                ? projects.map((project: { projectFolder?: string }) => project.projectFolder).filter(Boolean)
+                : []),
+        );
+    }
+
+    // Lerna's default when it doesn't delegate to the package manager
+    if (tools.includes('lerna') && patterns.length === 0) {
+        patterns.push('packages/*');
+    }
+
+    return { tools, patterns: [...new Set(patterns.map((pattern) => pattern.replace(/^(!?)\.\//, '$1')))] };
+};
+
+/**
+ * Finds the repository a directory belongs to: the nearest ancestor configured as a monorepo by
+ * npm or Yarn workspaces, `pnpm-workspace.yaml`, `lerna.json`, `nx.json`, `turbo.json` or
+ * `rush.json`. Outside a monorepo, the root is the nearest directory with a `.git` folder, or the
+ * directory itself.
+ */
+export const detectWorkspace = (startDir: string = process.cwd()): WorkspaceInfo => {
+    const start = path.resolve(startDir);
+    const cached = workspaceCache.get(start);
+    if (cached) {
+        return cached;
+    }
+
+    let workspace: WorkspaceInfo = { rootDir: start, isMonorepo: false, tools: [], packagePatterns: [] };
+    for (let dir = start; ; dir = path.dirname(dir)) {
+        const { tools, patterns } = readWorkspaceConfig(dir);
+        if (tools.length > 0) {
+            workspace = { rootDir: dir, isMonorepo: true, tools, packagePatterns: patterns };
+            break;
+        }
+        if (fs.existsSync(path.join(dir, '.git')) || path.dirname(dir) === dir) {
+            workspace = { ...workspace, rootDir: fs.existsSync(path.join(dir, '.git')) ? dir : start };
+            break;
+        }
+    }
+
+    workspaceCache.set(start, workspace);
+    return workspace;
+};
+
+/**
+ * Lists the packages of a monorepo: the directories its package globs match that have a
+ * `package.json`, and for Nx, directories with a `project.json`. Returns an empty list outside
+ * a monorepo.
+ */
+export const listWorkspacePackages = (workspace: WorkspaceInfo): WorkspacePackage[] => {
+    if (!workspace.isMonorepo) {
+        return [];
+    }
+    const cached = packagesCache.get(workspace.rootDir);
+    if (cached) {
+        return cached;
+    }
+
+    const toDirectory = (pattern: string) => pattern.replace(/\/+$/, '');
+    const include = workspace.packagePatterns
+        .filter((pattern) => !pattern.startsWith('!'))
+        .map((pattern) => `${toDirectory(pattern)}/package.json`);
+    if (workspace.tools.includes('nx')) {
+        include.push('**/project.json');
+    }
+    const ignore = [
+        '**/node_modules/**',
+        ...workspace.packagePatterns
+            .filter((pattern) => pattern.startsWith('!'))
+            .map((pattern) => `${toDirectory(pattern.slice(1))}/**`),
+    ];
+
+    const manifests = glob.sync(include, { cwd: workspace.rootDir, ignore });
+    const directories = [...new Set(manifests.map((file) => path.dirname(file)))].filter(
+        (directory) => directory !== '.',
+    );
+
+    const packages = directories
+        .map((directory) => {
+            const absolute = path.join(workspace.rootDir, directory);
+            const name =
+                readJson(path.join(absolute, 'package.json'))?.name ??
+                readJson(path.join(absolute, 'project.json'))?.name ??
+                path.basename(directory);
+            return { name, directory };
+        })
+        .sort((a, b) => a.directory.localeCompare(b.directory));
+
+    packagesCache.set(workspace.rootDir, packages);
+    return packages;
+};
+
+/**
+ * Finds the source directory of a package in the monorepo a directory belongs to, by its name.
+ * Returns undefined outside a monorepo, or when no workspace package has that name.
+ */
+export const findWorkspacePackageDir = (packageName: string, fromDir: string): string | undefined => {
+    const workspace = detectWorkspace(fromDir);
+    const workspacePackage = listWorkspacePackages(workspace).find(({ name }) => name === packageName);
+    return workspacePackage && path.join(workspace.rootDir, workspacePackage.directory);
+};
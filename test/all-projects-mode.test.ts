@@ -0,0 +1,80 @@
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { allProjectsMode } from '../src/all-projects-mode';
+import { parseCliOptions } from '../src/cli-options';
+import { AllProjectsReport } from '../src/types';
+
+const fixtureDir = path.join(__dirname, 'fixtures', 'monorepo');
+const originalCwd = process.cwd();
+
+/**
+ * Runs `analyze --all-projects --format json` in the fixture and returns the report it prints
+ */
+const runAllProjects = async (): Promise<AllProjectsReport> => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    await allProjectsMode(parseCliOptions(['analyze', '--all-projects', '--format', 'json', '--no-cache']));
+    return JSON.parse(String(write.mock.calls[0][0]));
+};
+
+beforeAll(() => {
+    process.chdir(fixtureDir);
+});
+
+afterAll(() => {
+    process.chdir(originalCwd);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    process.exitCode = undefined;
+});
+
+describe('allProjectsMode', () => {
+    it('reports the dynamic imports, preview import budgets and shared wrappers of every project', async () => {
+        const report = await runAllProjects();
+
+        expect(report).toMatchObject({ mode: 'all-projects', isMonorepo: true, importThreshold: 10 });
+        expect(report.projects).toEqual([
+            {
+                project: 'apps/docs/.storybook',
+                storyFiles: 1,
+                dynamicImports: { traceable: 0, context: 0, untraceable: 0 },
+                barrelFiles: 0,
+                previewFiles: [
+                    {
+                        file: 'apps/docs/.storybook/preview.ts',
+                        totalImports: 1,
+                        exceedsImportThreshold: false,
+                        reachableFiles: 1,
+                        sharedWrappers: ['@mono/theme'],
+                    },
+                ],
+                previewWorkspacePackages: ['@mono/theme'],
+            },
+            {
+                project: 'apps/web/.storybook',
+                storyFiles: 1,
+                dynamicImports: { traceable: 0, context: 1, untraceable: 1 },
+                barrelFiles: 0,
+                previewFiles: [
+                    {
+                        file: 'apps/web/.storybook/preview.ts',
+                        totalImports: 2,
+                        exceedsImportThreshold: false,
+                        reachableFiles: 2,
+                        sharedWrappers: ['@mono/theme'],
+                    },
+                ],
+                previewWorkspacePackages: ['@mono/theme', '@mono/ui'],
+            },
+        ]);
+    });
+
+    it("lists the workspace packages imported by more than one project's preview", async () => {
+        const { sharedPreviewPackages } = await runAllProjects();
+
+        expect(sharedPreviewPackages).toEqual([
+            { packageName: '@mono/theme', projects: ['apps/docs/.storybook', 'apps/web/.storybook'] },
+        ]);
+    });
+});
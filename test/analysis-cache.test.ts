@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CACHE_DIRECTORY, getCachedFileImports, openAnalysisCache } from '../src/analysis-cache';
+import { analyzeStoryFiles } from '../src/analyze-mode';
+import { buildDependencyGraph } from '../src/dependency-graph';
+import { createModuleResolver } from '../src/module-resolver';
+import { findStoryFiles, findStorySpecifiers } from '../src/story-discovery';
+
+let rootDir: string;
+
+/**
+ * Writes a file in the temporary project, creating its directory
+ */
+const writeFile = (file: string, code: string) => {
+    const filePath = path.join(rootDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, code);
+    return filePath;
+};
+
+const cachePath = () => path.join(rootDir, CACHE_DIRECTORY, 'analysis.json');
+
+beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbosnap-helper-cache-'));
+});
+
+afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe('openAnalysisCache', () => {
+    it('returns cached entries only while the file content is unchanged', () => {
+        const filePath = writeFile('src/a.ts', "import './b';");
+        const cache = openAnalysisCache({ rootDir });
+        cache.set(filePath, "import './b';", { csfError: 'not CSF' });
+
+        expect(cache.get(filePath, "import './b';")).toMatchObject({ csfError: 'not CSF' });
+        expect(cache.get(filePath, "import './c';")).toBeUndefined();
+    });
+
+    it('keeps entries across runs, and discards a cache written by another version', () => {
+        const filePath = writeFile('src/a.ts', "import './b';");
+        const cache = openAnalysisCache({ rootDir });
+        cache.set(filePath, "import './b';", { csfError: 'not CSF' });
+        cache.save();
+
+        expect(openAnalysisCache({ rootDir }).get(filePath, "import './b';")).toMatchObject({ csfError: 'not CSF' });
+
+        const saved = JSON.parse(fs.readFileSync(cachePath(), 'utf-8'));
+        fs.writeFileSync(cachePath(), JSON.stringify({ ...saved, version: '0.0.0-other' }));
+        expect(openAnalysisCache({ rootDir }).get(filePath, "import './b';")).toBeUndefined();
+    });
+
+    it('neither reads nor writes the cache file when disabled', () => {
+        const filePath = writeFile('src/a.ts', "import './b';");
+        const cache = openAnalysisCache({ rootDir });
+        cache.set(filePath, "import './b';", { csfError: 'not CSF' });
+        cache.save();
+        fs.rmSync(cachePath());
+
+        const disabled = openAnalysisCache({ enabled: false, rootDir });
+        disabled.set(filePath, "import './b';", { csfError: 'not CSF' });
+        disabled.save();
+
+        expect(disabled.get(filePath, "import './b';")).toBeUndefined();
+        expect(fs.existsSync(cachePath())).toBe(false);
+    });
+});
+
+describe('getCachedFileImports', () => {
+    it('reuses the imports of unchanged files and analyzes changed files again', () => {
+        const filePath = writeFile('src/a.ts', "import { b } from './b';");
+        const cache = openAnalysisCache({ rootDir });
+
+        const first = getCachedFileImports(filePath, "import { b } from './b';", cache);
+        const second = getCachedFileImports(filePath, "import { b } from './b';", cache);
+        const changed = getCachedFileImports(filePath, "import { c } from './c';", cache);
+
+        expect(first.entry).toBeUndefined();
+        expect(second.entry).toBeDefined();
+        expect(second.analysis).toEqual(first.analysis);
+        expect(changed.entry).toBeUndefined();
+        expect(changed.analysis.staticImports.map(({ source }) => source)).toEqual(['./c']);
+    });
+
+    it('recounts the files context modules match, since they depend on other files', () => {
+        const code = "const icons = require.context('./icons', false, /\\.svg$/);";
+        const filePath = writeFile('src/a.ts', code);
+        writeFile('src/icons/add.svg', '<svg />');
+        const cache = openAnalysisCache({ rootDir });
+        const cwd = process.cwd();
+        process.chdir(rootDir);
+        try {
+            getCachedFileImports(filePath, code, cache);
+            writeFile('src/icons/remove.svg', '<svg />');
+
+            const { analysis, entry } = getCachedFileImports(filePath, code, cache);
+            expect(entry).toBeDefined();
+            expect(analysis.dynamicImports[0].matchedFiles).toBe(2);
+        } finally {
+            process.chdir(cwd);
+        }
+    });
+});
+
+describe('buildDependencyGraph', () => {
+    it('resolves cached imports again once the file they pointed to is removed', async () => {
+        const entry = writeFile('src/a.ts', "import { b } from './b';");
+        writeFile('src/b.ts', 'export const b = 1;');
+        const cache = openAnalysisCache({ rootDir });
+
+        const first = await buildDependencyGraph([entry], createModuleResolver(), { cache });
+        expect(first.get(entry)?.dependencies).toEqual([path.join(rootDir, 'src/b.ts')]);
+
+        fs.rmSync(path.join(rootDir, 'src/b.ts'));
+        writeFile('src/b/index.ts', 'export const b = 1;');
+
+        const second = await buildDependencyGraph([entry], createModuleResolver(), { cache });
+        expect(second.get(entry)?.dependencies).toEqual([path.join(rootDir, 'src/b/index.ts')]);
+    });
+});
+
+describe('analyzeStoryFiles', () => {
+    it('builds story ids again when the stories entry a cached story file was parsed for changes', async () => {
+        const configDir = path.join(__dirname, 'fixtures', 'stories', '.storybook');
+        const specifiers = await findStorySpecifiers(configDir);
+        const storyFiles = (await findStoryFiles(configDir, specifiers)).filter((file) => file.includes('Card'));
+        const cache = openAnalysisCache({ rootDir });
+        const analyze = (options: Parameters<typeof analyzeStoryFiles>[2]) =>
+            analyzeStoryFiles(storyFiles, process.cwd(), { cache, resolver: createModuleResolver(), ...options });
+
+        const withoutEntry = await analyze({});
+        const withEntry = await analyze({ specifiers });
+
+        expect(withoutEntry.files[0].csf?.stories[0].id).not.toBe('extra-card--default');
+        expect(withEntry.files[0].csf?.stories[0].id).toBe('extra-card--default');
+    });
+});
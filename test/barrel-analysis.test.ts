@@ -0,0 +1,55 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { analyzeBarrels } from '../src/barrel-analysis';
+import { buildDependencyGraph } from '../src/dependency-graph';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+/**
+ * Builds the dependency graph of a story file and lists the barrels it imports through
+ */
+const analyzeStory = async (storyFile: string) => {
+    const graph = await buildDependencyGraph([storyFile]);
+    return analyzeBarrels(graph, [storyFile]);
+};
+
+describe('analyzeBarrels', () => {
+    it('imports each name under the name its origin exports, relative to the importer for aliases', async () => {
+        const storyFile = path.join(fixturesDir, 'barrels', 'src', 'Page.stories.tsx');
+        const [barrel] = await analyzeStory(storyFile);
+
+        expect(barrel).toMatchObject({
+            file: path.relative(process.cwd(), path.join(fixturesDir, 'barrels', 'src', 'components', 'index.ts')),
+            storyFiles: 1,
+            fanOut: 5,
+        });
+        expect(barrel.suggestions.map(({ source, replacements }) => ({ source, replacements }))).toEqual([
+            {
+                source: '@/components',
+                replacements: [
+                    { source: './components/Panel', names: ['default'], clause: '{ Panel }' },
+                    { source: './components/Button', names: ['PrimaryButton'], clause: '{ Button as PrimaryButton }' },
+                    { source: './components/Card', names: ['Card'], clause: 'Card' },
+                    { source: './components/icons', names: ['Icons'], clause: '* as Icons' },
+                    { source: './components/Badge', names: ['Badge'], clause: '{ Badge }' },
+                ],
+            },
+            {
+                source: 'components',
+                replacements: [{ source: './components/Badge', names: ['Badge'], clause: '{ Badge }' }],
+            },
+        ]);
+    });
+
+    it('imports a subpath of the package for imports of a workspace package through its barrel', async () => {
+        const storyFile = path.join(fixturesDir, 'barrels', 'src', 'Profile.stories.tsx');
+        const [barrel] = await analyzeStory(storyFile);
+
+        expect(barrel.suggestions).toEqual([
+            expect.objectContaining({
+                source: '@barrels/ui',
+                replacements: [{ source: '@barrels/ui/src/Avatar', names: ['Avatar'], clause: '{ Avatar }' }],
+            }),
+        ]);
+    });
+});
@@ -0,0 +1,126 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { checkConfig, checkPackageJsonScripts } from '../src/check-mode';
+import { findDefaultChromaticConfig } from '../src/config-management';
+import { ChromaticConfig, ProjectMeta } from '../src/types';
+
+const projectDir = path.join(__dirname, 'fixtures', 'check');
+const configDir = path.join(projectDir, '.storybook');
+
+const meta: ProjectMeta = {
+    storybookBaseDir: '.',
+    storybookConfigDir: '.storybook',
+    storybookBuildDir: 'storybook-static',
+    packageManager: 'pnpm',
+    isMonoRepo: false,
+    framework: '@storybook/react-vite',
+    ciEnv: 'github',
+    staticAssets: [],
+    workspacePackages: [],
+};
+
+const fixtureMeta: ProjectMeta = { ...meta, storybookBaseDir: projectDir };
+
+const validConfig: ChromaticConfig = {
+    $schema: 'https://www.chromatic.com/config-file.schema.json',
+    onlyChanged: true,
+    storybookBaseDir: './',
+    storybookConfigDir: '.storybook/',
+    storybookBuildDir: 'storybook-static',
+};
+
+describe('checkConfig', () => {
+    it('accepts a config whose directories only differ in formatting', () => {
+        expect(checkConfig(validConfig, meta)).toEqual([]);
+    });
+
+    it('reports missing and mismatched directories with the detected value', () => {
+        const { storybookBuildDir, ...config } = validConfig;
+
+        expect(checkConfig({ ...config, storybookConfigDir: 'config/storybook' }, meta)).toEqual([
+            {
+                field: 'storybookConfigDir',
+                message: "storybookConfigDir doesn't match the detected project",
+                expected: '.storybook',
+                actual: 'config/storybook',
+            },
+            { field: 'storybookBuildDir', message: 'storybookBuildDir is missing', expected: storybookBuildDir },
+        ]);
+    });
+
+    it('treats onlyChanged: false like a missing onlyChanged, since neither enables TurboSnap', () => {
+        const config: ChromaticConfig = { ...validConfig };
+        delete config.onlyChanged;
+
+        expect(checkConfig(config, meta)).toEqual([
+            {
+                field: 'onlyChanged',
+                message: 'onlyChanged is missing, so TurboSnap is not enabled',
+                expected: 'true',
+            },
+        ]);
+        expect(checkConfig({ ...config, onlyChanged: false }, meta)).toEqual([
+            {
+                field: 'onlyChanged',
+                message: 'onlyChanged is false, so TurboSnap is not enabled',
+                expected: 'true',
+            },
+        ]);
+    });
+
+    it('reports a missing $schema', () => {
+        const { $schema, ...config } = validConfig;
+
+        expect(checkConfig(config, meta)).toEqual([
+            { field: '$schema', message: '$schema is missing', expected: $schema },
+        ]);
+    });
+});
+
+describe('checkPackageJsonScripts', () => {
+    it('reports Chromatic scripts that omit --config-file or point at another file', () => {
+        expect(checkPackageJsonScripts(path.join(configDir, 'chromatic.config.json'), fixtureMeta)).toEqual([
+            {
+                field: 'scripts.chromatic:ci',
+                message: `Script "chromatic:ci" doesn't pass --config-file`,
+                expected: `--config-file '.storybook/chromatic.config.json'`,
+            },
+            {
+                field: 'scripts.chromatic:old',
+                message: 'Script "chromatic:old" points to the wrong --config-file',
+                expected: '.storybook/chromatic.config.json',
+                actual: 'chromatic.old.json',
+            },
+        ]);
+    });
+
+    it("doesn't require --config-file when the config is Chromatic's default next to package.json", () => {
+        expect(
+            checkPackageJsonScripts(path.join(projectDir, 'chromatic.config.json'), fixtureMeta).map(
+                (problem) => problem.field,
+            ),
+        ).toEqual(['scripts.chromatic', 'scripts.chromatic:old']);
+    });
+
+    it('has nothing to check without a package.json', () => {
+        expect(
+            checkPackageJsonScripts(path.join(configDir, 'chromatic.config.json'), {
+                ...meta,
+                storybookBaseDir: configDir,
+            }),
+        ).toEqual([]);
+    });
+});
+
+describe('findDefaultChromaticConfig', () => {
+    it('reads the config from the Storybook config directory before the project directory', () => {
+        expect(findDefaultChromaticConfig(configDir, fixtureMeta)).toEqual({
+            path: path.join(configDir, 'chromatic.config.json'),
+            config: validConfig,
+        });
+    });
+
+    it('returns null instead of prompting when there is no default config', () => {
+        expect(findDefaultChromaticConfig(projectDir, fixtureMeta)).toBeNull();
+    });
+});
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { confirm, isInteractive, parseCliOptions } from '../src/cli-options';
+import { createChromaticConfig } from '../src/config-management';
+import { CliOptionsError } from '../src/errors';
+import { ProjectMeta } from '../src/types';
+
+describe('parseCliOptions', () => {
+    it('defaults to interactive init with text output', () => {
+        expect(parseCliOptions([])).toEqual({
+            mode: 'init',
+            yes: false,
+            dryRun: false,
+            all: false,
+            format: 'text',
+            allProjects: false,
+            noCache: false,
+            files: [],
+        });
+    });
+
+    it('reads the mode, flags with separate and inline values, and positional files', () => {
+        expect(
+            parseCliOptions([
+                'impact',
+                '--project',
+                'packages/app',
+                '--project-id=Project:abc',
+                '--assets',
+                'repo',
+                '-y',
+                '--no-cache',
+                'src/Button.tsx',
+                'src/theme.ts',
+            ]),
+        ).toMatchObject({
+            mode: 'impact',
+            project: 'packages/app',
+            projectId: 'Project:abc',
+            assets: 'repo',
+            yes: true,
+            noCache: true,
+            files: ['src/Button.tsx', 'src/theme.ts'],
+        });
+    });
+
+    it('accepts mode flags like --preview', () => {
+        expect(parseCliOptions(['--preview', '--format', 'json'])).toMatchObject({ mode: '--preview', format: 'json' });
+    });
+
+    it('rejects unknown options, missing values and values outside the choices', () => {
+        expect(() => parseCliOptions(['init', '--unknown'])).toThrow(new CliOptionsError('Unknown option: --unknown'));
+        expect(() => parseCliOptions(['init', '--project'])).toThrow(
+            new CliOptionsError('Option --project requires a value'),
+        );
+        expect(() => parseCliOptions(['init', '--project', '--yes'])).toThrow(
+            new CliOptionsError('Option --project requires a value'),
+        );
+        expect(() => parseCliOptions(['init', '--assets', 'everything'])).toThrow(
+            new CliOptionsError('Invalid value for --assets: everything. Expected one of: project, repo, both, none'),
+        );
+    });
+});
+
+describe('isInteractive', () => {
+    const { isTTY } = process.stdin;
+
+    afterEach(() => {
+        process.stdin.isTTY = isTTY;
+    });
+
+    it('never prompts with --yes, JSON output or when stdin is not a terminal', () => {
+        process.stdin.isTTY = true;
+        expect(isInteractive(parseCliOptions(['init']))).toBe(true);
+        expect(isInteractive(parseCliOptions(['init', '--yes']))).toBe(false);
+        expect(isInteractive(parseCliOptions(['analyze', '--format', 'json']))).toBe(false);
+
+        process.stdin.isTTY = false;
+        expect(isInteractive(parseCliOptions(['init']))).toBe(false);
+    });
+});
+
+describe('confirm', () => {
+    it('answers yes with --yes, and throws when it would have to prompt non-interactively', async () => {
+        await expect(confirm(parseCliOptions(['init', '--yes']), 'Apply these changes?')).resolves.toBe(true);
+        await expect(confirm(parseCliOptions(['init']), 'Apply these changes?')).rejects.toThrow(
+            new CliOptionsError(
+                'Missing --yes: confirming "Apply these changes?" is required when running non-interactively.',
+            ),
+        );
+    });
+});
+
+describe('createChromaticConfig', () => {
+    let projectDir: string;
+    const meta = (): ProjectMeta => ({
+        storybookBaseDir: projectDir,
+        storybookConfigDir: path.join(projectDir, '.storybook'),
+        storybookBuildDir: path.join(projectDir, 'storybook-static'),
+        packageManager: 'pnpm',
+        isMonoRepo: false,
+        framework: '@storybook/react-vite',
+        ciEnv: '',
+        staticAssets: [],
+        workspacePackages: [],
+    });
+
+    beforeEach(() => {
+        projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbosnap-helper-cli-'));
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it('requires --project-id when running non-interactively without an existing project ID', async () => {
+        await expect(createChromaticConfig(meta(), parseCliOptions(['init', '--yes']))).rejects.toThrow(
+            new CliOptionsError(
+                'Missing --project-id: the Chromatic project ID is required when running non-interactively.',
+            ),
+        );
+        expect(fs.existsSync(path.join(projectDir, 'chromatic.config.json'))).toBe(false);
+    });
+
+    it('creates the config from --project-id without prompting', async () => {
+        const { config } = await createChromaticConfig(
+            meta(),
+            parseCliOptions(['init', '--yes', '--project-id', 'abc']),
+        );
+
+        expect(config).toMatchObject({ projectId: 'Project:abc', onlyChanged: true });
+        expect(JSON.parse(fs.readFileSync(path.join(projectDir, 'chromatic.config.json'), 'utf-8'))).toEqual(config);
+    });
+});
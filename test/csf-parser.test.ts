@@ -0,0 +1,62 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { findStoriesEntry, parseCsfFile } from '../src/csf-parser';
+import { findStoryFiles, findStorySpecifiers } from '../src/story-discovery';
+
+const projectDir = path.join(__dirname, 'fixtures', 'stories');
+const configDir = path.join(projectDir, '.storybook');
+const storyFile = (file: string) => path.join(projectDir, 'src', file);
+
+/**
+ * Parses a fixture story file with the `stories` entry that loads it
+ */
+const parseStory = async (file: string) => {
+    const specifiers = await findStorySpecifiers(configDir);
+    return parseCsfFile(storyFile(file), undefined, undefined, findStoriesEntry(storyFile(file), specifiers));
+};
+
+describe('findStoryFiles', () => {
+    it('finds the files matched by glob and object stories entries', async () => {
+        expect(await findStoryFiles(configDir)).toEqual([
+            storyFile('components/Button.stories.tsx'),
+            storyFile('extra/Card.stories.tsx'),
+            storyFile('extra/Panel.stories.tsx'),
+        ]);
+    });
+});
+
+describe('parseCsfFile', () => {
+    it('builds titles and story ids relative to the stories entry directory', async () => {
+        const csf = await parseStory('components/Button.stories.tsx');
+
+        expect(csf.title).toBeUndefined();
+        expect(csf.stories).toEqual([
+            { exportName: 'Primary', name: 'Primary', id: 'button--primary' },
+            { exportName: 'Secondary', name: 'Secondary', id: 'button--secondary' },
+        ]);
+    });
+
+    it("prefixes generated titles with the stories entry's titlePrefix", async () => {
+        const csf = await parseStory('extra/Card.stories.tsx');
+
+        expect(csf.title).toBeUndefined();
+        expect(csf.stories.map(({ id }) => id)).toEqual(['extra-card--default']);
+    });
+
+    it("prefixes titles set in the meta with the stories entry's titlePrefix", async () => {
+        const csf = await parseStory('extra/Panel.stories.tsx');
+
+        expect(csf.title).toBe('Extra/Layout/Panel');
+        expect(csf.stories.map(({ id }) => id)).toEqual(['extra-layout-panel--default']);
+    });
+
+    it('resolves the component in the meta to the file it is declared in', async () => {
+        const csf = await parseStory('components/Button.stories.tsx');
+
+        expect(csf.component).toEqual({
+            name: 'Button',
+            source: './Button',
+            file: path.relative(process.cwd(), storyFile('components/Button.tsx')),
+        });
+    });
+});
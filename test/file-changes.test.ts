@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { updateChromaticConfig } from '../src/config-management';
+import {
+    applyPendingChanges,
+    discardPendingChanges,
+    fileExists,
+    getPendingChanges,
+    readTextFile,
+    setDryRun,
+    writeJsonFile,
+} from '../src/file-changes';
+import { ProjectMeta } from '../src/types';
+
+let projectDir: string;
+const projectFile = (file: string) => path.join(projectDir, file);
+
+beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbosnap-helper-changes-'));
+    setDryRun(true);
+});
+
+afterEach(() => {
+    discardPendingChanges();
+    setDryRun(false);
+    vi.restoreAllMocks();
+    fs.rmSync(projectDir, { recursive: true, force: true });
+});
+
+describe('dry run', () => {
+    it('stages writes instead of writing them, and reads see the staged content', () => {
+        const configPath = projectFile('chromatic.config.json');
+        writeJsonFile(configPath, { onlyChanged: true });
+
+        expect(fs.existsSync(configPath)).toBe(false);
+        expect(fileExists(configPath)).toBe(true);
+        expect(JSON.parse(readTextFile(configPath))).toEqual({ onlyChanged: true });
+        expect(getPendingChanges()).toEqual([
+            { path: configPath, before: null, after: JSON.stringify({ onlyChanged: true }, null, 2) },
+        ]);
+    });
+
+    it('collapses repeated writes into one change against the original content', () => {
+        const packageJsonPath = projectFile('package.json');
+        fs.writeFileSync(packageJsonPath, '{}');
+        writeJsonFile(packageJsonPath, { scripts: { chromatic: 'chromatic' } });
+        writeJsonFile(packageJsonPath, { scripts: { chromatic: 'chromatic --only-changed' } });
+
+        expect(getPendingChanges()).toEqual([
+            {
+                path: packageJsonPath,
+                before: '{}',
+                after: JSON.stringify({ scripts: { chromatic: 'chromatic --only-changed' } }, null, 2),
+            },
+        ]);
+    });
+
+    it('leaves out writes that would not change the file', () => {
+        const configPath = projectFile('chromatic.config.json');
+        fs.writeFileSync(configPath, JSON.stringify({ onlyChanged: true }, null, 2));
+        writeJsonFile(configPath, { onlyChanged: true });
+
+        expect(getPendingChanges()).toEqual([]);
+    });
+
+    it('writes the staged changes when applied, and nothing when discarded', () => {
+        const appliedPath = projectFile('applied.json');
+        writeJsonFile(appliedPath, { applied: true });
+        expect(applyPendingChanges().map((change) => change.path)).toEqual([appliedPath]);
+        expect(JSON.parse(fs.readFileSync(appliedPath, 'utf-8'))).toEqual({ applied: true });
+
+        const discardedPath = projectFile('discarded.json');
+        writeJsonFile(discardedPath, { applied: false });
+        discardPendingChanges();
+        expect(getPendingChanges()).toEqual([]);
+        expect(fs.existsSync(discardedPath)).toBe(false);
+    });
+
+    it('previews a config update without touching the existing config', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const configPath = projectFile('chromatic.config.json');
+        const existing = { projectId: 'Project:abc', onlyChanged: true, externals: ['public/**'], zip: true };
+        fs.writeFileSync(configPath, JSON.stringify(existing, null, 2));
+        const meta: ProjectMeta = {
+            storybookBaseDir: './packages/app',
+            storybookConfigDir: './packages/app/.storybook',
+            storybookBuildDir: './storybook-static',
+            packageManager: 'pnpm',
+            isMonoRepo: true,
+            framework: '@storybook/react-vite',
+            ciEnv: '',
+            staticAssets: [],
+            workspacePackages: [],
+        };
+
+        await updateChromaticConfig(configPath, existing, meta);
+
+        expect(JSON.parse(fs.readFileSync(configPath, 'utf-8'))).toEqual(existing);
+        expect(JSON.parse(getPendingChanges()[0].after)).toEqual({
+            $schema: 'https://www.chromatic.com/config-file.schema.json',
+            ...existing,
+            storybookBaseDir: './packages/app',
+            storybookConfigDir: './packages/app/.storybook',
+            storybookBuildDir: './storybook-static',
+        });
+    });
+});
@@ -0,0 +1 @@
+export const Avatar = () => null;
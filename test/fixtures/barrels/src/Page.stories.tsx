@@ -0,0 +1,6 @@
+import Main, { PrimaryButton, Card, Icons, Badge } from '@/components';
+import { Badge as Tag } from 'components';
+
+export default { component: Main, subcomponents: { PrimaryButton, Card, Icons, Badge, Tag } };
+
+export const Basic = {};
@@ -0,0 +1,5 @@
+import { Avatar } from '@barrels/ui';
+
+export default { component: Avatar };
+
+export const Basic = {};
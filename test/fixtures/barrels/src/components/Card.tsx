@@ -0,0 +1,3 @@
+const Card = () => null;
+
+export default Card;
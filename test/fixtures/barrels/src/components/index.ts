@@ -0,0 +1,5 @@
+export { Button as PrimaryButton } from './Button';
+export { default as Card } from './Card';
+export { Panel as default } from './Panel';
+export * as Icons from './icons';
+export * from './Badge';
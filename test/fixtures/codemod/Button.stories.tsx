@@ -0,0 +1,14 @@
+import { Button } from './Button';
+
+const lazy = require('./lib/helper');
+const { theme, theme: defaultTheme } = require('./lib/theme');
+const icons = require('./lib/icons').default;
+const themes = await import('./lib/theme');
+const { helper } = await import('./lib/helper');
+require('./global.css');
+
+export default { component: Button };
+
+export const Primary = {
+    args: { label: lazy.helper(), color: theme.color, icons, themes, helper, defaultTheme },
+};
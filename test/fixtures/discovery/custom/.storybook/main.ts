@@ -0,0 +1,6 @@
+const config = {
+    stories: ['../src/**/*.mdx', '../src/**/*.story.tsx', { directory: '../src', files: '**/*.stories.@(mts|cts)' }],
+    framework: '@storybook/react-vite',
+};
+
+export default config;
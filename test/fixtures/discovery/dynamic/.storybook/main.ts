@@ -0,0 +1,7 @@
+const config = {
+    // Built with a function, so it can't be read without running the config
+    stories: async () => ['../src/**/*.stories.tsx'],
+    framework: '@storybook/react-vite',
+};
+
+export default config;
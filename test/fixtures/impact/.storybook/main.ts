@@ -0,0 +1,6 @@
+const config = {
+    stories: ['../src/**/*.stories.tsx'],
+    framework: '@storybook/react-vite',
+};
+
+export default config;
@@ -0,0 +1,3 @@
+import { theme } from '../src/theme';
+
+export default { parameters: { theme } };
@@ -0,0 +1,3 @@
+import { formatLabel } from './format';
+
+export const Button = ({ label }: { label: string }) => <button>{formatLabel(label)}</button>;
@@ -0,0 +1,5 @@
+import { Card } from './Card';
+
+export default { component: Card };
+
+export const Basic = { args: { title: 'Card' } };
@@ -0,0 +1 @@
+export const Card = ({ title }: { title: string }) => <section>{title}</section>;
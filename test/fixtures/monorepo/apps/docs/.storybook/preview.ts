@@ -0,0 +1,3 @@
+import { theme } from '@mono/theme';
+
+export default { parameters: { theme } };
@@ -0,0 +1,3 @@
+export default { title: 'Intro' };
+
+export const Basic = {};
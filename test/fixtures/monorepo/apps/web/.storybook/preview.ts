@@ -0,0 +1,4 @@
+import { theme } from '@mono/theme';
+import { Button } from '@mono/ui';
+
+export default { parameters: { theme, Button } };
@@ -0,0 +1,8 @@
+import { Button } from '@mono/ui';
+
+export default { component: Button };
+
+export const Primary = {};
+
+export const loadIcon = (name: string) => import(`./icons/${name}`);
+export const loadAnything = (path: string) => import(path);
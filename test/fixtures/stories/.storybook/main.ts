@@ -0,0 +1,9 @@
+const config = {
+    stories: [
+        '../src/components/*.stories.tsx',
+        { directory: '../src/extra', files: '*.stories.tsx', titlePrefix: 'Extra' },
+    ],
+    framework: '@storybook/react-vite',
+};
+
+export default config;
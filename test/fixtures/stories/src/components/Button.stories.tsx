@@ -0,0 +1,6 @@
+import { Button } from './Button';
+
+export default { component: Button };
+
+export const Primary = {};
+export const Secondary = {};
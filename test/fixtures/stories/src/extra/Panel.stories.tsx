@@ -0,0 +1,3 @@
+export default { title: 'Layout/Panel' };
+
+export const Default = {};
@@ -0,0 +1,5 @@
+import { Button } from '@fixture/ui';
+import { Header } from './components/Header';
+import { format } from './utils';
+
+export const App = () => [Button, Header, format];
@@ -0,0 +1,84 @@
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildDependencyGraph } from '../src/dependency-graph';
+import { buildImpactReport, findProjectEntryFiles } from '../src/impact-mode';
+
+const projectDir = path.join(__dirname, 'fixtures', 'impact');
+const originalCwd = process.cwd();
+
+/**
+ * Builds the impact report the way `impact` does, from the fixture project as the working directory
+ */
+const analyzeImpact = async (changedFiles: string[]) => {
+    const { storyFiles, previewFiles } = await findProjectEntryFiles('.storybook');
+    const graph = await buildDependencyGraph([...storyFiles, ...previewFiles]);
+    return buildImpactReport('.storybook', storyFiles, previewFiles, graph, changedFiles);
+};
+
+beforeAll(() => {
+    process.chdir(projectDir);
+});
+
+afterAll(() => {
+    process.chdir(originalCwd);
+});
+
+describe('buildImpactReport', () => {
+    it('retests only the stories that import a changed component, with the import chain', async () => {
+        const report = await analyzeImpact(['src/format.ts']);
+
+        expect(report.triggersFullRebuild).toBe(false);
+        expect(report.totalStoryFiles).toBe(2);
+        expect(report.affectedStoryFiles).toEqual(['src/Button.stories.tsx']);
+        expect(report.files).toEqual([
+            {
+                file: 'src/format.ts',
+                exists: true,
+                stories: [
+                    {
+                        file: 'src/Button.stories.tsx',
+                        chain: ['src/Button.stories.tsx', 'src/Button.tsx', 'src/format.ts'],
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it('retests a changed story file itself', async () => {
+        const report = await analyzeImpact(['src/Card.stories.tsx']);
+
+        expect(report.triggersFullRebuild).toBe(false);
+        expect(report.affectedStoryFiles).toEqual(['src/Card.stories.tsx']);
+    });
+
+    it('retests every story when a file imported by the preview changes', async () => {
+        const report = await analyzeImpact(['src/theme.ts']);
+
+        expect(report.triggersFullRebuild).toBe(true);
+        expect(report.affectedStoryFiles).toEqual(['src/Button.stories.tsx', 'src/Card.stories.tsx']);
+        expect(report.files[0]).toMatchObject({
+            fullRebuildReason: "it's imported by .storybook/preview.ts",
+            fullRebuildChain: ['.storybook/preview.ts', 'src/theme.ts'],
+        });
+    });
+
+    it('retests every story when a file in the Storybook config directory changes', async () => {
+        const report = await analyzeImpact(['src/format.ts', '.storybook/main.ts']);
+
+        expect(report.triggersFullRebuild).toBe(true);
+        expect(report.affectedStoryFiles).toEqual(['src/Button.stories.tsx', 'src/Card.stories.tsx']);
+        expect(report.files[0].fullRebuildReason).toBeUndefined();
+        expect(report.files[1]).toMatchObject({
+            fullRebuildReason: "it's in the Storybook config directory (.storybook)",
+            fullRebuildChain: ['.storybook/main.ts'],
+        });
+    });
+
+    it("flags changed files that don't exist, and lists no stories for them", async () => {
+        const report = await analyzeImpact(['src/Removed.tsx']);
+
+        expect(report.triggersFullRebuild).toBe(false);
+        expect(report.affectedStoryFiles).toEqual([]);
+        expect(report.files).toEqual([{ file: 'src/Removed.tsx', exists: false, stories: [] }]);
+    });
+});
@@ -0,0 +1,160 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { planStaticImports } from '../src/import-codemod';
+
+const fixtureDir = path.join(__dirname, 'fixtures', 'codemod');
+const storyFile = path.join(fixtureDir, 'Button.stories.tsx');
+
+/**
+ * Plans the rewrites for a snippet, as if it were a story file in the fixture
+ */
+const plan = (code: string) => planStaticImports(storyFile, code);
+
+describe('planStaticImports', () => {
+    it('rewrites require calls and awaited dynamic imports in a story file', () => {
+        const { rewrites, skipped } = planStaticImports(storyFile);
+
+        expect(rewrites.map(({ before, after }) => ({ before, after }))).toEqual([
+            {
+                before: "const lazy = require('./lib/helper');",
+                after: "import * as lazy from './lib/helper';",
+            },
+            {
+                before: "const { theme, theme: defaultTheme } = require('./lib/theme');",
+                after: "import { theme, theme as defaultTheme } from './lib/theme';",
+            },
+            {
+                before: "const icons = require('./lib/icons').default;",
+                after: "import icons from './lib/icons';",
+            },
+            {
+                before: "const themes = await import('./lib/theme');",
+                after: "import * as themes from './lib/theme';",
+            },
+            {
+                before: "const { helper } = await import('./lib/helper');",
+                after: "import { helper } from './lib/helper';",
+            },
+            {
+                before: "require('./global.css');",
+                after: "import './global.css';",
+            },
+        ]);
+        expect(skipped).toEqual([]);
+    });
+
+    it('only changes the rewritten statements, keeping the rest of the file as it is', () => {
+        const { after } = plan(`import { Button } from './Button';
+const lazy = require('./lib/helper')
+
+export default { component: Button, args: { label: lazy.helper() } };
+`);
+
+        expect(after).toBe(`import { Button } from './Button';
+import * as lazy from './lib/helper'
+
+export default { component: Button, args: { label: lazy.helper() } };
+`);
+    });
+
+    it('rewrites a named export read from a loaded module as a named import', () => {
+        expect(plan("const theme = require('./lib/theme').theme;").after).toBe("import { theme } from './lib/theme';");
+        expect(plan("const dark = require('./lib/theme').theme;").after).toBe(
+            "import { theme as dark } from './lib/theme';",
+        );
+    });
+
+    it('skips loads that only run some of the time, or whose path is built at runtime', () => {
+        const { rewrites, skipped } = plan(`
+            const load = () => require('./lib/helper');
+            const icon = require('./icons/' + name);
+            let theme = require('./lib/theme');
+            const pending = import('./lib/helper');
+        `);
+
+        expect(rewrites).toEqual([]);
+        expect(skipped.map(({ source, reason }) => ({ source, reason }))).toEqual([
+            {
+                source: './lib/helper',
+                reason: "it's inside a function, condition, loop or try block, so the module only loads when that code runs",
+            },
+            {
+                source: "'./icons/' + name",
+                reason: "the path isn't a string literal, so it's only known at runtime",
+            },
+            {
+                source: './lib/theme',
+                reason: 'only top-level `const` declarations and bare statements can become static imports',
+            },
+            {
+                source: './lib/helper',
+                reason: 'only top-level `const` declarations and bare statements can become static imports',
+            },
+        ]);
+    });
+
+    it("skips requires that bind a name when the target isn't known to be an ES module", () => {
+        const { rewrites, skipped } = plan(`
+            const greet = require('./lib/legacy');
+            const { broken } = require('./lib/broken');
+            const React = require('react');
+            const missing = require('./lib/missing').default;
+        `);
+
+        expect(rewrites).toEqual([]);
+        expect(skipped.map(({ source, reason }) => ({ source, reason }))).toEqual([
+            {
+                source: './lib/legacy',
+                reason: "the target assigns module.exports, so it's CommonJS and an import wouldn't get what require returns",
+            },
+            {
+                source: './lib/broken',
+                reason: "the target can't be parsed, so there's no telling whether it's an ES module",
+            },
+            {
+                source: 'react',
+                reason: "it loads a package, which may be CommonJS, so an import wouldn't get what require returns",
+            },
+            {
+                source: './lib/missing',
+                reason: "the path can't be resolved, so there's no telling whether the target is an ES module",
+            },
+        ]);
+    });
+
+    it('still rewrites side-effect requires and dynamic imports of CommonJS targets', () => {
+        const { rewrites } = plan(`
+            require('./lib/legacy');
+            const legacy = await import('./lib/legacy');
+        `);
+
+        expect(rewrites.map(({ after }) => after)).toEqual([
+            "import './lib/legacy';",
+            "import * as legacy from './lib/legacy';",
+        ]);
+    });
+
+    it('leaves .cjs and .cts files alone, since they are always CommonJS', () => {
+        const { rewrites, skipped } = planStaticImports(
+            path.join(fixtureDir, 'setup.cjs'),
+            "const helper = require('./lib/helper');",
+        );
+
+        expect(rewrites).toEqual([]);
+        expect(skipped.map(({ reason }) => reason)).toEqual([
+            ".cjs files are always CommonJS, so they can't use static imports",
+        ]);
+    });
+
+    it('leaves CommonJS files alone, since they cannot use static imports', () => {
+        const { rewrites, skipped } = plan(`
+            const helper = require('./lib/helper');
+            module.exports = { helper };
+        `);
+
+        expect(rewrites).toEqual([]);
+        expect(skipped.map(({ reason }) => reason)).toEqual([
+            "the file assigns module.exports, so it's CommonJS and can't use static imports",
+        ]);
+    });
+});
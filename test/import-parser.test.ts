@@ -0,0 +1,160 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { analyzeFileImports, extractImports } from '../src/import-parser';
+
+const fixtureDir = path.join(__dirname, 'fixtures', 'imports');
+const filePath = path.join(fixtureDir, 'src', 'Button.stories.tsx');
+const relativeToCwd = (directory: string) => path.relative(process.cwd(), path.join(fixtureDir, directory));
+
+const classify = (code: string) => extractImports(code, filePath).map(({ source, kind }) => ({ source, kind }));
+
+describe('extractImports', () => {
+    it('classifies static, side-effect and re-exported imports', () => {
+        const imports = extractImports(
+            `
+            import React, { useState } from 'react';
+            import * as Icons from './icons';
+            import './global.css';
+            export { Button } from './Button';
+            export * from './theme';
+            `,
+            filePath,
+        );
+
+        expect(imports.map(({ source, kind, names }) => ({ source, kind, names }))).toEqual([
+            { source: 'react', kind: 'static', names: ['default', 'useState'] },
+            { source: './icons', kind: 'static', names: ['*'] },
+            { source: './global.css', kind: 'side-effect', names: undefined },
+            { source: './Button', kind: 're-export', names: ['Button'] },
+            { source: './theme', kind: 're-export', names: ['*'] },
+        ]);
+    });
+
+    it('classifies type-only imports and exports', () => {
+        expect(
+            classify(`
+            import type { Meta } from '@storybook/react';
+            import { type StoryObj } from '@storybook/react';
+            export type { ButtonProps } from './Button';
+            import { type Theme, light } from './theme';
+            `),
+        ).toEqual([
+            { source: '@storybook/react', kind: 'type-only' },
+            { source: '@storybook/react', kind: 'type-only' },
+            { source: './Button', kind: 'type-only' },
+            { source: './theme', kind: 'static' },
+        ]);
+    });
+
+    it('classifies require calls and dynamic imports with literal paths as traceable', () => {
+        const imports = extractImports(
+            `
+            const helper = require('./helper');
+            const load = () => import('./lazy');
+            const template = import(\`./template\`);
+            `,
+            filePath,
+        );
+
+        expect(imports.map(({ source, kind, traceability }) => ({ source, kind, traceability }))).toEqual([
+            { source: './helper', kind: 'require', traceability: 'traceable' },
+            { source: './lazy', kind: 'dynamic-literal', traceability: 'traceable' },
+            { source: './template', kind: 'dynamic-literal', traceability: 'traceable' },
+        ]);
+    });
+
+    it('reports non-literal paths with a static directory as context modules', () => {
+        const [templateImport, concatenatedRequire] = extractImports(
+            `
+            const icon = (name) => import(\`./icons/\${name}\`);
+            const asset = (name) => require('./assets/' + name);
+            `,
+            filePath,
+        );
+
+        expect(templateImport).toMatchObject({
+            kind: 'dynamic-non-literal',
+            traceability: 'context',
+            contextDirectory: relativeToCwd('src/icons'),
+        });
+        expect(concatenatedRequire).toMatchObject({
+            kind: 'dynamic-non-literal',
+            traceability: 'context',
+            contextDirectory: relativeToCwd('src/assets'),
+        });
+    });
+
+    it('reports paths only known at runtime as untraceable', () => {
+        const imports = extractImports(
+            `
+            const load = (name) => import(name);
+            const fromVariable = require(moduleName);
+            `,
+            filePath,
+        );
+
+        expect(imports.map(({ source, kind, traceability }) => ({ source, kind, traceability }))).toEqual([
+            { source: 'name', kind: 'dynamic-non-literal', traceability: 'untraceable' },
+            { source: 'moduleName', kind: 'dynamic-non-literal', traceability: 'untraceable' },
+        ]);
+    });
+
+    it('counts the files require.context and import.meta.glob bundle', () => {
+        const [requireContext, importMetaGlob] = extractImports(
+            `
+            const icons = require.context('./icons', false, /\\.ts$/);
+            const assets = import.meta.glob('./assets/*.png');
+            `,
+            filePath,
+        );
+
+        expect(requireContext).toMatchObject({
+            kind: 'require-context',
+            traceability: 'context',
+            contextDirectory: relativeToCwd('src/icons'),
+            contextFilter: { regExp: '/\\.ts$/', recursive: false },
+            matchedFiles: 2,
+        });
+        expect(importMetaGlob).toMatchObject({
+            kind: 'import-meta-glob',
+            traceability: 'context',
+            contextDirectory: relativeToCwd('src/assets'),
+            contextFilter: { patterns: ['*.png'] },
+            matchedFiles: 2,
+        });
+    });
+
+    it('ignores imports in comments and strings', () => {
+        expect(
+            classify(`
+            // import './commented';
+            const text = "require('./in-a-string')";
+            `),
+        ).toEqual([]);
+    });
+});
+
+describe('analyzeFileImports', () => {
+    it('splits imports into static and dynamic imports, leaving out type-only imports', () => {
+        const analysis = analyzeFileImports(
+            filePath,
+            `
+            import type { Meta } from '@storybook/react';
+            import { Button } from './Button';
+            const helper = require('./helper');
+            `,
+        );
+
+        expect(analysis.staticImports.map(({ source }) => source)).toEqual(['./Button']);
+        expect(analysis.dynamicImports.map(({ source }) => source)).toEqual(['./helper']);
+        expect(analysis.parseError).toBeUndefined();
+    });
+
+    it('reports files that fail to parse with a parse error and no imports', () => {
+        const analysis = analyzeFileImports(filePath, `import { from './broken';`);
+
+        expect(analysis.staticImports).toEqual([]);
+        expect(analysis.dynamicImports).toEqual([]);
+        expect(analysis.parseError).toEqual(expect.any(String));
+    });
+});
@@ -0,0 +1,70 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createModuleResolver } from '../src/module-resolver';
+import { findWorkspacePackageDir } from '../src/workspace-detection';
+
+const workspaceDir = path.join(__dirname, 'fixtures', 'workspace');
+const appFile = path.join(workspaceDir, 'packages', 'app', 'src', 'App.tsx');
+const fixturePath = (file: string) => path.join(workspaceDir, file);
+
+describe('createModuleResolver', () => {
+    it('resolves relative imports written without an extension, and directory index files', () => {
+        const resolver = createModuleResolver();
+
+        expect(resolver.resolve('./components/Header', appFile)).toEqual({
+            type: 'file',
+            path: fixturePath('packages/app/src/components/Header.tsx'),
+        });
+        expect(resolver.resolve('./utils', appFile)).toEqual({
+            type: 'file',
+            path: fixturePath('packages/app/src/utils/index.ts'),
+        });
+    });
+
+    it('resolves tsconfig paths, reading tsconfig files with comments and trailing commas', () => {
+        expect(createModuleResolver().resolve('@app/utils', appFile)).toEqual({
+            type: 'file',
+            path: fixturePath('packages/app/src/utils/index.ts'),
+        });
+    });
+
+    it("follows workspace packages to their source when they aren't linked into node_modules", () => {
+        const resolver = createModuleResolver();
+
+        expect(resolver.resolve('@fixture/ui', appFile)).toEqual({
+            type: 'file',
+            path: fixturePath('packages/ui/src/index.ts'),
+        });
+        expect(resolver.resolve('@fixture/ui/button', appFile)).toEqual({
+            type: 'file',
+            path: fixturePath('packages/ui/src/Button.tsx'),
+        });
+    });
+
+    it('reports other packages as external, and Node builtins as builtin', () => {
+        const resolver = createModuleResolver();
+
+        expect(resolver.resolve('left-pad', appFile)).toEqual({ type: 'external', packageName: 'left-pad' });
+        expect(resolver.resolve('@scope/missing/sub', appFile)).toEqual({
+            type: 'external',
+            packageName: '@scope/missing',
+        });
+        expect(resolver.resolve('fs', appFile)).toEqual({ type: 'builtin' });
+        expect(resolver.resolve('node:path', appFile)).toEqual({ type: 'builtin' });
+    });
+
+    it("reports local files that don't exist as unresolved", () => {
+        expect(createModuleResolver().resolve('./Missing', appFile)).toEqual({ type: 'unresolved' });
+    });
+});
+
+describe('findWorkspacePackageDir', () => {
+    it('finds workspace packages by name from any directory in the monorepo', () => {
+        expect(findWorkspacePackageDir('@fixture/ui', path.dirname(appFile))).toBe(fixturePath('packages/ui'));
+        expect(findWorkspacePackageDir('@fixture/app', workspaceDir)).toBe(fixturePath('packages/app'));
+    });
+
+    it("returns undefined for packages that aren't in the workspace", () => {
+        expect(findWorkspacePackageDir('left-pad', path.dirname(appFile))).toBeUndefined();
+    });
+});
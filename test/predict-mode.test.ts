@@ -0,0 +1,98 @@
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildDependencyGraph } from '../src/dependency-graph';
+import { findProjectEntryFiles } from '../src/impact-mode';
+import { buildPredictReport } from '../src/predict-mode';
+import { ChromaticConfig } from '../src/types';
+
+const projectDir = path.join(__dirname, 'fixtures', 'impact');
+const originalCwd = process.cwd();
+
+/**
+ * Builds the prediction the way `predict` does, with the fixture project as the repository root
+ */
+const predict = async (
+    changedFiles: string[],
+    { config = {}, storybookBaseDir = '.' }: { config?: ChromaticConfig; storybookBaseDir?: string } = {},
+) => {
+    const { storyFiles, previewFiles } = await findProjectEntryFiles('.storybook');
+    const graph = await buildDependencyGraph([...storyFiles, ...previewFiles]);
+    return buildPredictReport({
+        project: '.storybook',
+        base: 'main',
+        config,
+        configFile: null,
+        storybookBaseDir,
+        repositoryRoot: projectDir,
+        storyFiles,
+        previewFiles,
+        graph,
+        changedFiles,
+    });
+};
+
+beforeAll(() => {
+    process.chdir(projectDir);
+});
+
+afterAll(() => {
+    process.chdir(originalCwd);
+});
+
+describe('buildPredictReport', () => {
+    it('predicts a partial build when changes only reach some stories', async () => {
+        const report = await predict(['src/format.ts']);
+
+        expect(report.outcome).toBe('partial');
+        expect(report.affectedStoryFiles).toEqual(['src/Button.stories.tsx']);
+        expect(report.fullRebuildTriggers).toEqual([]);
+    });
+
+    it("predicts no changes when the changed files aren't bundled", async () => {
+        const report = await predict(['README.md']);
+
+        expect(report.outcome).toBe('no-changes');
+        expect(report.affectedStoryFiles).toEqual([]);
+    });
+
+    it('predicts a full rebuild when package manifests or lockfiles change', async () => {
+        const report = await predict(['src/format.ts', 'pnpm-lock.yaml']);
+
+        expect(report.outcome).toBe('full-rebuild');
+        expect(report.affectedStoryFiles).toEqual(['src/Button.stories.tsx', 'src/Card.stories.tsx']);
+        expect(report.fullRebuildTriggers).toEqual([
+            { file: 'pnpm-lock.yaml', reason: 'Dependencies may have changed' },
+        ]);
+    });
+
+    it('predicts a full rebuild when a file imported by the preview changes', async () => {
+        const report = await predict(['src/theme.ts']);
+
+        expect(report.outcome).toBe('full-rebuild');
+        expect(report.fullRebuildTriggers).toEqual([
+            { file: 'src/theme.ts', reason: "Changed because it's imported by .storybook/preview.ts" },
+        ]);
+    });
+
+    it('predicts a full rebuild when a bundled file is outside storybookBaseDir', async () => {
+        const report = await predict(['src/format.ts'], { storybookBaseDir: 'packages/app' });
+
+        expect(report.outcome).toBe('full-rebuild');
+        expect(report.fullRebuildTriggers).toEqual([
+            { file: 'src/format.ts', reason: 'Bundled by Storybook but outside storybookBaseDir (packages/app)' },
+        ]);
+    });
+
+    it('predicts a full rebuild when a change matches externals, with or without a leading ./', async () => {
+        const report = await predict(['public/logo.svg', 'src/styles/global.css'], {
+            config: { externals: ['./public/**', 'src/**/*.css'] },
+        });
+
+        expect(report.outcome).toBe('full-rebuild');
+        expect(report.fullRebuildTriggers).toEqual([]);
+        expect(report.externalsMatches).toEqual([
+            { file: 'public/logo.svg', pattern: './public/**' },
+            { file: 'src/styles/global.css', pattern: 'src/**/*.css' },
+        ]);
+    });
+});
@@ -0,0 +1,36 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { findStoryFiles, findStorySpecifiers } from '../src/story-discovery';
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'discovery');
+const fixturePath = (file: string) => path.join(fixturesDir, file);
+
+describe('findStorySpecifiers', () => {
+    it('normalizes glob strings and directory entries relative to the config directory', async () => {
+        const specifiers = await findStorySpecifiers(fixturePath('custom/.storybook'));
+
+        expect(specifiers.map(({ directory, files }) => ({ directory: path.resolve(directory), files }))).toEqual([
+            { directory: fixturePath('custom/src'), files: '**/*.mdx' },
+            { directory: fixturePath('custom/src'), files: '**/*.story.tsx' },
+            { directory: fixturePath('custom/src'), files: '**/*.stories.@(mts|cts)' },
+        ]);
+    });
+});
+
+describe('findStoryFiles', () => {
+    it('finds only the files the stories entries match, including MDX docs and custom patterns', async () => {
+        expect(await findStoryFiles(fixturePath('custom/.storybook'))).toEqual([
+            fixturePath('custom/src/Button.story.tsx'),
+            fixturePath('custom/src/Card.stories.mts'),
+            fixturePath('custom/src/Legacy.stories.cts'),
+            fixturePath('custom/src/docs/Intro.mdx'),
+        ]);
+    });
+
+    it("falls back to every story and MDX file in the project when stories can't be read", async () => {
+        expect(await findStoryFiles(fixturePath('dynamic/.storybook'))).toEqual([
+            fixturePath('dynamic/docs/Guide.mdx'),
+            fixturePath('dynamic/src/Button.stories.tsx'),
+        ]);
+    });
+});
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readJson } from '../src/utils';
+
+let tempDir: string;
+const writeFile = (content: string) => {
+    const filePath = path.join(tempDir, 'tsconfig.json');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+};
+
+beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'turbosnap-helper-utils-'));
+});
+
+afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('readJson', () => {
+    it('reads JSONC with comments and trailing commas', () => {
+        const filePath = writeFile(`{
+    // Line comment
+    "compilerOptions": {
+        "paths": { "@/*": ["./src/*",], }, /* block comment */
+    },
+}`);
+
+        expect(readJson(filePath)).toEqual({ compilerOptions: { paths: { '@/*': ['./src/*'] } } });
+    });
+
+    it('leaves commas, comment markers and escaped quotes inside strings alone', () => {
+        const filePath = writeFile(`{ "a": "x,}", "b": "y, ]", "c": "// not a comment", "d": "say \\"hi,\\"", }`);
+
+        expect(readJson(filePath)).toEqual({ a: 'x,}', b: 'y, ]', c: '// not a comment', d: 'say "hi,"' });
+    });
+
+    it('drops a trailing comma followed by a comment', () => {
+        expect(readJson(writeFile('[1, 2, // last\n]'))).toEqual([1, 2]);
+    });
+
+    it('returns undefined for missing or invalid files', () => {
+        expect(readJson(path.join(tempDir, 'missing.json'))).toBeUndefined();
+        expect(readJson(writeFile('{ "a": }'))).toBeUndefined();
+    });
+});
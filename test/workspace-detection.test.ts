@@ -0,0 +1,86 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { detectWorkspace, listWorkspacePackages } from '../src/workspace-detection';
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'workspaces');
+const fixturePath = (dir: string) => path.join(fixturesDir, dir);
+
+describe('detectWorkspace', () => {
+    it('finds the pnpm workspace root from a directory inside one of its packages', () => {
+        expect(detectWorkspace(fixturePath('pnpm/packages/button/src'))).toEqual({
+            rootDir: fixturePath('pnpm'),
+            isMonorepo: true,
+            tools: ['pnpm'],
+            packagePatterns: ['packages/*', '!packages/internal'],
+        });
+    });
+
+    it('reads the package globs of lerna.json, defaulting to packages/*', () => {
+        expect(detectWorkspace(fixturePath('lerna'))).toMatchObject({
+            tools: ['lerna'],
+            packagePatterns: ['modules/*'],
+        });
+        expect(detectWorkspace(fixturePath('lerna-default'))).toMatchObject({
+            tools: ['lerna'],
+            packagePatterns: ['packages/*'],
+        });
+    });
+
+    it('detects Nx alongside the package manager workspaces it uses', () => {
+        expect(detectWorkspace(fixturePath('nx'))).toMatchObject({
+            isMonorepo: true,
+            tools: ['workspaces', 'nx'],
+            packagePatterns: ['libs/*'],
+        });
+    });
+
+    it('reads the project folders of rush.json, which allows comments', () => {
+        expect(detectWorkspace(fixturePath('rush'))).toMatchObject({
+            tools: ['rush'],
+            packagePatterns: ['apps/web', 'libs/tokens'],
+        });
+    });
+
+    it('uses the git repository root outside a monorepo', () => {
+        expect(detectWorkspace(path.join(__dirname, 'fixtures', 'stories', 'src'))).toMatchObject({
+            rootDir: path.resolve(__dirname, '..'),
+            isMonorepo: false,
+            tools: [],
+        });
+    });
+});
+
+describe('listWorkspacePackages', () => {
+    it('lists the packages pnpm globs match, leaving out negated ones', () => {
+        expect(listWorkspacePackages(detectWorkspace(fixturePath('pnpm')))).toEqual([
+            { name: '@pnpm-fixture/button', directory: 'packages/button' },
+        ]);
+    });
+
+    it('lists lerna packages', () => {
+        expect(listWorkspacePackages(detectWorkspace(fixturePath('lerna')))).toEqual([
+            { name: '@lerna-fixture/core', directory: 'modules/core' },
+        ]);
+        expect(listWorkspacePackages(detectWorkspace(fixturePath('lerna-default')))).toEqual([
+            { name: '@lerna-fixture/utils', directory: 'packages/utils' },
+        ]);
+    });
+
+    it('lists Nx projects with a project.json as well as workspace packages', () => {
+        expect(listWorkspacePackages(detectWorkspace(fixturePath('nx')))).toEqual([
+            { name: 'site', directory: 'apps/site' },
+            { name: '@nx-fixture/ui', directory: 'libs/ui' },
+        ]);
+    });
+
+    it('lists rush projects', () => {
+        expect(listWorkspacePackages(detectWorkspace(fixturePath('rush')))).toEqual([
+            { name: '@rush-fixture/web', directory: 'apps/web' },
+            { name: '@rush-fixture/tokens', directory: 'libs/tokens' },
+        ]);
+    });
+
+    it('returns no packages outside a monorepo', () => {
+        expect(listWorkspacePackages(detectWorkspace(path.join(__dirname, 'fixtures', 'stories')))).toEqual([]);
+    });
+});
@@ -1,20 +1,30 @@
+import { readFileSync } from 'fs';
 import { defineConfig } from 'tsup';
 
+const { version } = JSON.parse(readFileSync('./package.json', 'utf-8'));
+
 export default defineConfig((options) => [
     {
-        entry: ['src/index.ts'],
+        entry: ['src/index.ts', 'src/api.ts'],
         outDir: './bin',
         splitting: false,
         minify: !options.watch,
+        // Keep class names through minification so error names stay meaningful
+        keepNames: true,
         format: ['cjs'],
         treeshake: true,
         target: 'node16',
         clean: true,
+        // Type declarations are only published for the programmatic API
+        dts: { entry: 'src/api.ts' },
         platform: 'node',
+        // Cached analysis results are only reused by the version that wrote them
+        define: { __VERSION__: JSON.stringify(version) },
         // Adding these as external dependencies to avoid bundling them in the output
         external: [
             'storybook/internal/common',
             'storybook/internal/csf-tools',
+            'storybook/internal/babel',
             'storybook'
         ],
         esbuildOptions(options) {
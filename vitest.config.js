@@ -0,0 +1,12 @@
+import { readFileSync } from 'fs';
+import { defineConfig } from 'vitest/config';
+
+const { version } = JSON.parse(readFileSync('./package.json', 'utf-8'));
+
+export default defineConfig({
+    // Defined the same way as in the build, since the analysis cache is keyed by version
+    define: { __VERSION__: JSON.stringify(version) },
+    test: {
+        include: ['test/**/*.test.ts'],
+    },
+});